@@ -0,0 +1,349 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Runs a live session from the command line, for regression testing prompts
+ * without a browser. Input is a WAV file, streamed in realtime as the mic
+ * would, or a text script with one user turn per line.
+ *
+ *   GEMINI_API_KEY=... npm run live-cli -- --input question.wav --config config.json --out out/
+ *   npm run live-cli -- --script turns.txt --base-url http://localhost:9090
+ *
+ * The model's audio is written to `reply.wav`, tool calls, transcripts, text
+ * and the client log to `session.json`. Options:
+ *   --model         defaults to the console's default model
+ *   --config        LiveConnectConfig as JSON
+ *   --input         WAV file, any sample rate, the first channel is used
+ *   --script        text file, one turn per line
+ *   --text          a single text turn
+ *   --out           output directory, defaults to live-cli-out
+ *   --base-url      e.g. a local `npm run mock-server`
+ *   --tool-responses JSON object of canned outputs by function name
+ *   --timeout       ms to wait for each reply, defaults to 30000
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  FunctionDeclaration,
+  LiveConnectConfig,
+  LiveServerToolCall,
+  Transcription,
+} from "@google/genai";
+import { GenAILiveClient } from "../src/lib/genai-live-client";
+import { nodeEnvironment } from "../src/lib/live-environment";
+import { ConnectionState } from "../src/lib/connection-state";
+import {
+  AudioFormat,
+  convertPCM16,
+  DEFAULT_INPUT_FORMAT,
+  DEFAULT_OUTPUT_FORMAT,
+  isSameFormat,
+} from "../src/lib/audio-format";
+import { DEFAULT_LIVE_MODEL } from "../src/lib/model-registry";
+import { decodeWav, encodeWav, floatTo16BitPCM, resample } from "../src/lib/wav";
+import { StreamingLog } from "../src/types/types";
+
+// what the browser records
+const INPUT_SAMPLE_RATE = DEFAULT_INPUT_FORMAT.sampleRate;
+// the recording worklet posts 2048 samples at a time, 128ms at 16kHz
+const CHUNK_SAMPLES = 2048;
+// silence after the input, so server side activity detection sees the end
+const TRAILING_SILENCE_MS = 1000;
+
+export type LiveCliInput = { wav: Uint8Array } | { turns: string[] };
+
+export type LiveCliOptions = {
+  model: string;
+  config: LiveConnectConfig;
+  input: LiveCliInput;
+  outDir: string;
+  apiKey?: string;
+  baseUrl?: string;
+  /** canned function outputs by name, functions without one get `{}` */
+  toolResponses?: Record<string, unknown>;
+  /** ms to wait for setup and for each reply */
+  timeout?: number;
+  log?: (message: string) => void;
+};
+
+export type LiveCliSession = {
+  model: string;
+  turns: number;
+  text: string[];
+  inputTranscription: string;
+  outputTranscription: string;
+  toolCalls: LiveServerToolCall[];
+  logs: StreamingLog[];
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Resolves on the next `event`. Rejects when `start` fails, when the session
+ * closes or fails first, or after `timeout` ms, and removes its listeners and
+ * timer either way. `start` runs once the listeners are in place, so an event
+ * it triggers right away isn't missed.
+ */
+function waitFor(
+  client: GenAILiveClient,
+  event: "setupcomplete" | "turncomplete",
+  timeout: number,
+  start: () => unknown = () => {},
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      clearTimeout(timer);
+      client
+        .off(event, onEvent)
+        .off("close", onClose)
+        .off("statechange", onStateChange);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onEvent = () => settle();
+    const onClose = ({ code, reason }: CloseEvent) =>
+      settle(new Error(`Session closed before ${event} (${code}${reason ? ` ${reason}` : ""})`));
+    const onStateChange = (state: ConnectionState) => {
+      if (state.status === "failed") {
+        settle(new Error(state.reason));
+      }
+    };
+    const timer = setTimeout(
+      () => settle(new Error(`No ${event} within ${timeout}ms`)),
+      timeout
+    );
+    client.on(event, onEvent).on("close", onClose).on("statechange", onStateChange);
+    // the session may have dropped before this wait started
+    if (event === "turncomplete" && client.status !== "connected") {
+      settle(new Error(`Session is ${client.status}, no ${event} will come`));
+      return;
+    }
+    Promise.resolve()
+      .then(start)
+      .catch((error) =>
+        settle(error instanceof Error ? error : new Error(String(error)))
+      );
+  });
+}
+
+/**
+ * mono 16kHz PCM16 chunks of a WAV file, converted as the recording worklet
+ * would: first channel only, float samples scaled by 32768
+ */
+export function wavToInputChunks(wav: Uint8Array): Int16Array[] {
+  const { sampleRate, channels } = decodeWav(wav);
+  const speech = resample(channels[0], sampleRate, INPUT_SAMPLE_RATE);
+  const padded = new Float32Array(
+    speech.length + (TRAILING_SILENCE_MS / 1000) * INPUT_SAMPLE_RATE
+  );
+  padded.set(speech);
+  const samples = floatTo16BitPCM(padded);
+  const chunks: Int16Array[] = [];
+  for (let i = 0; i < samples.length; i += CHUNK_SAMPLES) {
+    chunks.push(samples.slice(i, i + CHUNK_SAMPLES));
+  }
+  return chunks;
+}
+
+export async function runLiveCli({
+  model,
+  config,
+  input,
+  outDir,
+  apiKey,
+  baseUrl,
+  toolResponses = {},
+  timeout = 30000,
+  log = console.log,
+}: LiveCliOptions): Promise<LiveCliSession> {
+  const client = new GenAILiveClient({
+    // a local stand-in doesn't check the key, but the SDK wants one
+    apiKey: apiKey || (baseUrl ? "mock" : undefined),
+    httpOptions: baseUrl ? { baseUrl } : undefined,
+    environment: nodeEnvironment,
+  });
+
+  const session: LiveCliSession = {
+    model,
+    turns: 0,
+    text: [],
+    inputTranscription: "",
+    outputTranscription: "",
+    toolCalls: [],
+    logs: [],
+  };
+  const audio: Int16Array[] = [];
+  // the reply is written in the format of its first chunk
+  let outputFormat: AudioFormat | null = null;
+  // the model has started a turn that hasn't completed yet
+  let responding = false;
+
+  client
+    .on("log", (entry) => {
+      // raw messages repeat the events below and carry all the audio
+      if (entry.type !== "server.message.raw") {
+        session.logs.push(entry);
+      }
+    })
+    .on("audio", (data, format) => {
+      responding = true;
+      outputFormat ||= format;
+      const pcm = new Uint8Array(data);
+      audio.push(
+        isSameFormat(format, outputFormat)
+          ? new Int16Array(data.slice(0, pcm.byteLength - (pcm.byteLength % 2)))
+          : convertPCM16(pcm, format, outputFormat)
+      );
+    })
+    .on("content", (content) => {
+      responding = true;
+      for (const part of content.modelTurn?.parts || []) {
+        if (part.text) {
+          session.text.push(part.text);
+          log(`model: ${part.text}`);
+        }
+      }
+    })
+    .on("inputtranscription", ({ text }: Transcription) => {
+      session.inputTranscription += text || "";
+    })
+    .on("outputtranscription", ({ text }: Transcription) => {
+      session.outputTranscription += text || "";
+    })
+    .on("toolcall", (toolCall) => {
+      session.toolCalls.push(toolCall);
+      log(`tool call: ${(toolCall.functionCalls || []).map((fc) => fc.name).join(", ")}`);
+    })
+    .on("turncomplete", () => {
+      responding = false;
+      session.turns++;
+    });
+
+  // answer the functions declared in the config with canned outputs
+  const declarations: FunctionDeclaration[] = (config.tools || []).flatMap(
+    (tool) => ("functionDeclarations" in tool && tool.functionDeclarations) || []
+  );
+  for (const declaration of declarations) {
+    client.tools.register(declaration, () => toolResponses[declaration.name || ""] ?? {});
+  }
+
+  try {
+    // a socket that never opens leaves connect pending, the timeout covers it
+    await waitFor(client, "setupcomplete", timeout, async () => {
+      if (!(await client.connect(model, config))) {
+        const { state } = client;
+        throw new Error(state.status === "failed" ? state.reason : `Could not connect to ${model}`);
+      }
+    });
+    log(`connected to ${model}`);
+
+    if ("turns" in input) {
+      for (const turn of input.turns) {
+        log(`user: ${turn}`);
+        await waitFor(client, "turncomplete", timeout, () =>
+          client.send([{ text: turn }])
+        );
+      }
+    } else {
+      const chunks = wavToInputChunks(input.wav);
+      const chunkMs = (CHUNK_SAMPLES / INPUT_SAMPLE_RATE) * 1000;
+      log(`streaming ${Math.round((chunks.length * chunkMs) / 1000)}s of audio`);
+      const turnsBefore = session.turns;
+      for (const chunk of chunks) {
+        client.sendAudio({
+          mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
+          data: Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength).toString("base64"),
+        });
+        await sleep(chunkMs);
+      }
+      client.sendAudioStreamEnd();
+      // the model may have answered while the audio was still streaming
+      if (session.turns === turnsBefore || responding) {
+        await waitFor(client, "turncomplete", timeout);
+      }
+    }
+  } finally {
+    client.disconnect();
+    mkdirSync(outDir, { recursive: true });
+    const pcm = new Int16Array(audio.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of audio) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+    const { sampleRate, channels } = outputFormat || DEFAULT_OUTPUT_FORMAT;
+    writeFileSync(join(outDir, "reply.wav"), encodeWav(pcm, sampleRate, channels));
+    writeFileSync(join(outDir, "session.json"), JSON.stringify(session, null, 2));
+    log(`wrote ${outDir}/reply.wav and ${outDir}/session.json`);
+  }
+  return session;
+}
+
+function arg(name: string) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const readJson = (path: string | undefined) =>
+  path ? JSON.parse(readFileSync(path, "utf8")) : undefined;
+
+if (require.main === module) {
+  const inputPath = arg("input");
+  const scriptPath = arg("script");
+  const text = arg("text");
+  const input: LiveCliInput | null = inputPath
+    ? { wav: readFileSync(inputPath) }
+    : scriptPath
+      ? {
+          turns: readFileSync(scriptPath, "utf8")
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+        }
+      : text
+        ? { turns: [text] }
+        : null;
+  const baseUrl = arg("base-url");
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!input) {
+    console.error("set --input, --script or --text");
+    process.exit(1);
+  }
+  if (!apiKey && !baseUrl) {
+    console.error("set GEMINI_API_KEY or --base-url");
+    process.exit(1);
+  }
+  runLiveCli({
+    model: arg("model") || DEFAULT_LIVE_MODEL,
+    config: readJson(arg("config")) || {},
+    input,
+    outDir: arg("out") || "live-cli-out",
+    apiKey,
+    baseUrl,
+    toolResponses: readJson(arg("tool-responses")),
+    timeout: arg("timeout") ? Number(arg("timeout")) : undefined,
+  }).then(
+    () => process.exit(0),
+    (error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A scriptable local stand-in for the Live API websocket endpoint.
+ *
+ * It accepts the same websocket path the @google/genai SDK builds from
+ * `httpOptions.baseUrl`, so pointing the console at `http://localhost:9090`
+ * is all it takes to run offline.
+ *
+ *   npm run mock-server -- --port 9090 --scenario server/scenarios/reconnect.json
+ *
+ * A scenario is a list of rules. Each rule fires on a client message kind
+ * (or on connection / a timer) and plays back a list of actions.
+ */
+
+import { LiveClientMessage } from "@google/genai";
+import { readFileSync } from "fs";
+import { WebSocket, WebSocketServer } from "ws";
+
+export type ClientMessageKind =
+  | "setup"
+  | "clientContent"
+  | "realtimeInput"
+  | "toolResponse";
+
+export type ScenarioAction = {
+  /** milliseconds to wait before running this action */
+  delay?: number;
+} & (
+  | { send: Record<string, unknown> }
+  | { audio: { durationMs: number; frequency?: number; sampleRate?: number } }
+  | { close: { code: number; reason?: string } }
+);
+
+export type ScenarioRule = {
+  on: ClientMessageKind | "connection";
+  /** only fire when the raw client message contains this substring */
+  match?: string;
+  /** fire on every nth matching message, defaults to every message */
+  every?: number;
+  /** fire at most this many times per connection */
+  times?: number;
+  actions: ScenarioAction[];
+};
+
+export type Scenario = {
+  name: string;
+  rules: ScenarioRule[];
+};
+
+/**
+ * echoes text turns, answers realtime input with a short tone every 40 audio
+ * chunks and at audioStreamEnd, and hands out resumption handles
+ */
+export const defaultScenario: Scenario = {
+  name: "default",
+  rules: [
+    {
+      on: "setup",
+      actions: [
+        { send: { setupComplete: {} } },
+        {
+          send: {
+            sessionResumptionUpdate: { newHandle: "{{handle}}", resumable: true },
+          },
+        },
+      ],
+    },
+    {
+      on: "clientContent",
+      match: "\"text\"",
+      actions: [
+        {
+          delay: 100,
+          send: {
+            serverContent: {
+              modelTurn: { parts: [{ text: "You said: {{text}}" }] },
+            },
+          },
+        },
+        { audio: { durationMs: 500 } },
+        { send: { serverContent: { turnComplete: true } } },
+      ],
+    },
+    {
+      on: "realtimeInput",
+      // audio chunks only, not audioStreamEnd or video frames
+      match: "\"audio\":",
+      every: 40,
+      actions: [
+        { audio: { durationMs: 300, frequency: 660 } },
+        { send: { serverContent: { turnComplete: true } } },
+      ],
+    },
+    {
+      // the mic was muted or the input ran out, as at the end of live-cli
+      on: "realtimeInput",
+      match: "audioStreamEnd",
+      actions: [
+        { delay: 100, audio: { durationMs: 500, frequency: 550 } },
+        { send: { serverContent: { turnComplete: true } } },
+      ],
+    },
+  ],
+};
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/** a base64 PCM16 mono sine tone, shaped like the model's audio output */
+export function toneChunk(
+  durationMs: number,
+  frequency = 440,
+  sampleRate = OUTPUT_SAMPLE_RATE,
+): string {
+  const samples = Math.round((sampleRate * durationMs) / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2;
+    buffer.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return buffer.toString("base64");
+}
+
+function fill(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\{\{(\w+)\}\}/g, (_, key) => vars[key] ?? "");
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => fill(v, vars));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, fill(v, vars)]),
+    );
+  }
+  return value;
+}
+
+function messageKind(message: LiveClientMessage): ClientMessageKind | null {
+  for (const kind of [
+    "setup",
+    "clientContent",
+    "realtimeInput",
+    "toolResponse",
+  ] as const) {
+    if (kind in message) {
+      return kind;
+    }
+  }
+  return null;
+}
+
+function lastText(message: LiveClientMessage): string {
+  const turns = message.clientContent?.turns || [];
+  const texts = turns
+    .flatMap((turn) => turn.parts || [])
+    .map((part) => part.text)
+    .filter(Boolean);
+  return texts.join(" ");
+}
+
+let handleCounter = 0;
+let connectionCounter = 0;
+
+export class MockLiveConnection {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private counts = new Map<ScenarioRule, number>();
+  private fired = new Map<ScenarioRule, number>();
+  private chains = new Map<ScenarioRule, Promise<void>>();
+  readonly id = ++connectionCounter;
+
+  constructor(
+    private socket: WebSocket,
+    private scenario: Scenario,
+    private log: (message: string) => void = console.log,
+  ) {
+    socket.on("message", (raw) => this.onMessage(raw.toString()));
+    socket.on("close", (code, reason) => {
+      this.timers.forEach(clearTimeout);
+      this.log(`[${this.id}] closed ${code} ${reason.toString()}`);
+    });
+    this.trigger("connection", "{}", {});
+  }
+
+  private onMessage(raw: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      this.log(`[${this.id}] ignoring non-JSON message`);
+      return;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      this.log(`[${this.id}] unknown message: ${raw.slice(0, 120)}`);
+      return;
+    }
+    // the field names are checked by messageKind, the SDK shapes the rest
+    const message = parsed as LiveClientMessage;
+    const kind = messageKind(message);
+    if (!kind) {
+      this.log(`[${this.id}] unknown message: ${raw.slice(0, 120)}`);
+      return;
+    }
+    if (kind === "setup") {
+      const handle = message.setup?.sessionResumption?.handle;
+      this.log(
+        `[${this.id}] setup ${message.setup?.model} ${handle ? `resuming ${handle}` : "fresh session"}`,
+      );
+    } else if (kind !== "realtimeInput") {
+      this.log(`[${this.id}] ${kind}`);
+    }
+    this.trigger(kind, raw, message);
+  }
+
+  private trigger(
+    kind: ScenarioRule["on"],
+    raw: string,
+    message: LiveClientMessage,
+  ) {
+    const vars = {
+      text: lastText(message),
+      id: `call-${Date.now().toString(36)}`,
+    };
+    for (const rule of this.scenario.rules) {
+      if (rule.on !== kind || (rule.match && !raw.includes(rule.match))) {
+        continue;
+      }
+      const count = (this.counts.get(rule) || 0) + 1;
+      this.counts.set(rule, count);
+      if (count % (rule.every || 1) !== 0) {
+        continue;
+      }
+      const fired = this.fired.get(rule) || 0;
+      if (rule.times !== undefined && fired >= rule.times) {
+        continue;
+      }
+      this.fired.set(rule, fired + 1);
+      this.play(rule, vars);
+    }
+  }
+
+  /**
+   * actions of a rule run sequentially and a rule queues behind its own
+   * previous firing, different rules play back independently
+   */
+  private play(rule: ScenarioRule, vars: Record<string, string>) {
+    const previous = this.chains.get(rule) || Promise.resolve();
+    const next = previous.then(async () => {
+      for (const action of rule.actions) {
+        if (action.delay) {
+          await new Promise<void>((resolve) => {
+            this.timers.push(setTimeout(resolve, action.delay));
+          });
+        }
+        if (this.socket.readyState !== WebSocket.OPEN) {
+          return;
+        }
+        this.run(action, vars);
+      }
+    });
+    this.chains.set(rule, next);
+  }
+
+  private run(action: ScenarioAction, vars: Record<string, string>) {
+    if ("close" in action) {
+      this.log(`[${this.id}] closing with ${action.close.code}`);
+      this.socket.close(action.close.code, action.close.reason);
+      return;
+    }
+    if ("audio" in action) {
+      const { durationMs, frequency, sampleRate = OUTPUT_SAMPLE_RATE } =
+        action.audio;
+      this.send({
+        serverContent: {
+          modelTurn: {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: `audio/pcm;rate=${sampleRate}`,
+                  data: toneChunk(durationMs, frequency, sampleRate),
+                },
+              },
+            ],
+          },
+        },
+      });
+      return;
+    }
+    const handle = JSON.stringify(action.send).includes("{{handle}}")
+      ? `mock-handle-${++handleCounter}`
+      : "";
+    this.send(fill(action.send, { ...vars, handle }));
+  }
+
+  private send(message: unknown) {
+    this.socket.send(JSON.stringify(message));
+  }
+}
+
+export function startMockLiveServer(
+  port: number,
+  scenario: Scenario = defaultScenario,
+  log: (message: string) => void = console.log,
+) {
+  const server = new WebSocketServer({ port });
+  server.on("connection", (socket, request) => {
+    const connection = new MockLiveConnection(socket, scenario, log);
+    log(`[${connection.id}] connected ${request.url?.split("?")[0]}`);
+  });
+  log(`mock Live API "${scenario.name}" listening on ws://localhost:${port}`);
+  return server;
+}
+
+function arg(name: string) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+if (require.main === module) {
+  const port = Number(arg("port") || 9090);
+  const scenarioPath = arg("scenario");
+  const scenario: Scenario = scenarioPath
+    ? JSON.parse(readFileSync(scenarioPath, "utf8"))
+    : defaultScenario;
+  startMockLiveServer(port, scenario);
+}
@@ -0,0 +1,123 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A reference backend that mints ephemeral Live API tokens, so the API key
+ * stays on the server and the browser only ever sees short-lived tokens.
+ *
+ *   GEMINI_API_KEY=... npm run token-server -- --port 8787 --origin http://localhost:3000
+ *
+ * then build the console with `REACT_APP_AUTH_TOKEN_URL=http://localhost:8787/token`.
+ * Put this behind your own authentication before deploying it anywhere public.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { GoogleGenAI } from "@google/genai";
+
+export type TokenServerOptions = {
+  apiKey: string;
+  /** the origin allowed to request tokens, e.g. the console's URL */
+  origin: string;
+  /** how long a session opened with the token may run */
+  expireMs?: number;
+  /** how long the token can be used to open a new session */
+  newSessionExpireMs?: number;
+  /** sessions per token, resuming a session doesn't count */
+  uses?: number;
+};
+
+const DEFAULT_EXPIRE_MS = 30 * 60 * 1000;
+const DEFAULT_NEW_SESSION_EXPIRE_MS = 2 * 60 * 1000;
+
+export function startTokenServer(
+  port: number,
+  {
+    apiKey,
+    origin,
+    expireMs = DEFAULT_EXPIRE_MS,
+    newSessionExpireMs = DEFAULT_NEW_SESSION_EXPIRE_MS,
+    uses = 1,
+  }: TokenServerOptions,
+  log: (message: string) => void = console.log,
+) {
+  const ai = new GoogleGenAI({ apiKey });
+
+  async function mint() {
+    const now = Date.now();
+    const expireTime = new Date(now + expireMs).toISOString();
+    const newSessionExpireTime = new Date(now + newSessionExpireMs).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses,
+        expireTime,
+        newSessionExpireTime,
+        httpOptions: { apiVersion: "v1alpha" },
+      },
+    });
+    return { token: token.name, expireTime, newSessionExpireTime, uses };
+  }
+
+  function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": origin,
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Cache-Control": "no-store",
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const path = req.url?.split("?")[0];
+    if (req.method === "OPTIONS") {
+      return send(res, 204, undefined);
+    }
+    if (path !== "/token" || req.method !== "POST") {
+      return send(res, 404, { error: "POST /token" });
+    }
+    try {
+      const token = await mint();
+      log(`minted token, new sessions until ${token.newSessionExpireTime}`);
+      send(res, 200, token);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      log(`token request failed: ${errorMessage}`);
+      send(res, 502, { error: errorMessage });
+    }
+  });
+  server.listen(port);
+  log(`token server listening on http://localhost:${port}/token for ${origin}`);
+  return server;
+}
+
+function arg(name: string) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+if (require.main === module) {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error("set GEMINI_API_KEY");
+    process.exit(1);
+  }
+  startTokenServer(Number(arg("port") || 8787), {
+    apiKey,
+    origin: arg("origin") || "http://localhost:3000",
+    uses: arg("uses") ? Number(arg("uses")) : undefined,
+  });
+}
@@ -14,30 +14,119 @@
  * limitations under the License.
  */
 
-import { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import "./App.scss";
 import { LiveAPIProvider } from "./contexts/LiveAPIContext";
 import SidePanel from "./components/side-panel/SidePanel";
 import { Altair } from "./components/altair/Altair";
 import ControlTray from "./components/control-tray/ControlTray";
+import MultiSessionConsole from "./components/multi-session/MultiSessionConsole";
 import cn from "classnames";
 import { LiveClientOptions } from "./types/types";
+import { ConnectionProfile, profileOptions } from "./lib/connection-profile";
+import {
+  useActiveConnectionProfile,
+  useConnectionProfileStore,
+} from "./lib/store-connection-profiles";
+import { useReplayStore } from "./lib/store-replay";
+import { ReplayTransport } from "./lib/replay-transport";
 
-const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-if (typeof API_KEY !== "string") {
-  throw new Error("set REACT_APP_GEMINI_API_KEY in .env");
+// prefer a token backend such as `npm run token-server` (http://localhost:8787/token)
+// over REACT_APP_GEMINI_API_KEY, which is embedded in the build. The key is
+// only read without a token URL, so a build with one doesn't inline it.
+const AUTH_TOKEN_URL = process.env.REACT_APP_AUTH_TOKEN_URL;
+const API_KEY = AUTH_TOKEN_URL
+  ? undefined
+  : process.env.REACT_APP_GEMINI_API_KEY;
+if (!AUTH_TOKEN_URL && !API_KEY) {
+  console.warn(
+    "set REACT_APP_AUTH_TOKEN_URL, or REACT_APP_GEMINI_API_KEY in .env.development.local, or add a connection profile in the settings"
+  );
 }
 
-const apiOptions: LiveClientOptions = {
-  apiKey: API_KEY,
+// point at a local stand-in such as `npm run mock-server` (http://localhost:9090)
+const BASE_URL = process.env.REACT_APP_LIVE_BASE_URL;
+
+// optional JSON price table for the usage meter, e.g.
+// {"currency":"USD","input":{"text":0.5,"audio":3},"output":{"text":2,"audio":12}}
+const PRICE_TABLE = process.env.REACT_APP_PRICE_TABLE;
+
+const baseOptions: Partial<LiveClientOptions> = {
+  priceTable: PRICE_TABLE ? JSON.parse(PRICE_TABLE) : undefined,
 };
 
+// profiles from .env, more can be added in the settings dialog
+const envProfiles: ConnectionProfile[] = [
+  ...(BASE_URL
+    ? [
+        {
+          id: "env-proxy",
+          kind: "proxy" as const,
+          name: "Local endpoint (.env)",
+          baseUrl: BASE_URL,
+          apiKey: API_KEY,
+        },
+      ]
+    : []),
+  {
+    id: "env-gemini",
+    kind: "gemini",
+    name: "Gemini API (.env)",
+    apiKey: API_KEY,
+    authTokenUrl: AUTH_TOKEN_URL,
+  },
+];
+useConnectionProfileStore.getState().setBuiltinProfiles(envProfiles);
+
+// `#compare` runs several sessions side by side instead of the console
+const COMPARE_HASH = "#compare";
+
+function useHash() {
+  const [hash, setHash] = useState(window.location.hash);
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+  return hash;
+}
+
 function App() {
   // this video reference is used for displaying the active stream, whether that is the webcam or screen capture
   // feel free to style as you see fit
   const videoRef = useRef<HTMLVideoElement>(null!);
   // either the screen capture, the video or null, if null we hide it
   const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const hash = useHash();
+  const profile = useActiveConnectionProfile();
+  // a new profile means a new client, see useLiveAPI
+  const profileApiOptions = useMemo(
+    () => profileOptions(profile || envProfiles[0], baseOptions),
+    [profile]
+  );
+  // while replaying a recording the client talks to the recording instead
+  const replay = useReplayStore((state) => state.replay);
+  const apiOptions = useMemo(
+    () =>
+      replay
+        ? {
+            ...profileApiOptions,
+            transport: new ReplayTransport(replay.entries, {
+              speed: replay.speed,
+            }),
+            sessionStore: "memory" as const,
+          }
+        : profileApiOptions,
+    [profileApiOptions, replay]
+  );
+
+  if (hash === COMPARE_HASH) {
+    return (
+      <div className="App">
+        <MultiSessionConsole options={profileApiOptions} />
+      </div>
+    );
+  }
 
   return (
     <div className="App">
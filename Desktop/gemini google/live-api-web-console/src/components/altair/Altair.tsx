@@ -16,12 +16,8 @@
 import { useEffect, useRef, useState, memo } from "react";
 import vegaEmbed from "vega-embed";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-import {
-  FunctionDeclaration,
-  LiveServerToolCall,
-  Modality,
-  Type,
-} from "@google/genai";
+import { useTool } from "../../hooks/use-tool";
+import { FunctionDeclaration, Modality, Type } from "@google/genai";
 
 const declaration: FunctionDeclaration = {
   name: "render_altair",
@@ -41,10 +37,10 @@ const declaration: FunctionDeclaration = {
 
 function AltairComponent() {
   const [jsonString, setJSONString] = useState<string>("");
-  const { client, setConfig, setModel } = useLiveAPIContext();
+  const { setConfig } = useLiveAPIContext();
 
+  // the model is picked in the settings dialog
   useEffect(() => {
-    setModel("models/gemini-2.0-flash-exp");
     setConfig({
       responseModalities: [Modality.AUDIO],
       speechConfig: {
@@ -59,45 +55,16 @@ function AltairComponent() {
       },
       tools: [
         // there is a free-tier quota for search
+        // render_altair is added by the tool registry, see useTool below
         { googleSearch: {} },
-        { functionDeclarations: [declaration] },
       ],
     });
-  }, [setConfig, setModel]);
+  }, [setConfig]);
 
-  useEffect(() => {
-    const onToolCall = (toolCall: LiveServerToolCall) => {
-      if (!toolCall.functionCalls) {
-        return;
-      }
-      const fc = toolCall.functionCalls.find(
-        (fc) => fc.name === declaration.name
-      );
-      if (fc) {
-        const str = (fc.args as any).json_graph;
-        setJSONString(str);
-      }
-      // send data for the response of your tool call
-      // in this case Im just saying it was successful
-      if (toolCall.functionCalls.length) {
-        setTimeout(
-          () =>
-            client.sendToolResponse({
-              functionResponses: toolCall.functionCalls?.map((fc) => ({
-                response: { output: { success: true } },
-                id: fc.id,
-                name: fc.name,
-              })),
-            }),
-          200
-        );
-      }
-    };
-    client.on("toolcall", onToolCall);
-    return () => {
-      client.off("toolcall", onToolCall);
-    };
-  }, [client]);
+  useTool<{ json_graph: string }>(declaration, ({ json_graph }) => {
+    setJSONString(json_graph);
+    return { success: true };
+  });
 
   const embedRef = useRef<HTMLDivElement>(null);
 
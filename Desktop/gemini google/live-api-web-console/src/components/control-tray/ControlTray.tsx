@@ -16,15 +16,37 @@
 
 import cn from "classnames";
 
-import { memo, ReactNode, RefObject, useEffect, useRef, useState } from "react";
+import {
+  memo,
+  ReactNode,
+  RefObject,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import { UseMediaStreamResult } from "../../hooks/use-media-stream-mux";
 import { useScreenCapture } from "../../hooks/use-screen-capture";
 import { useWebcam } from "../../hooks/use-webcam";
+import { useVideoFrames } from "../../hooks/use-video-frames";
 import { AudioRecorder } from "../../lib/audio-recorder";
+import {
+  ConversationAudioRecorder,
+  ConversationAudioTrack,
+} from "../../lib/conversation-audio-recorder";
 import AudioPulse from "../audio-pulse/AudioPulse";
 import "./control-tray.scss";
 import SettingsDialog from "../settings-dialog/SettingsDialog";
+import {
+  ConnectionState,
+  describeConnectionState,
+  isActive,
+} from "../../lib/connection-state";
+import { GenAILiveClient } from "../../lib/genai-live-client";
+import { findLiveModel } from "../../lib/model-registry";
+import { RealtimeChunk } from "../../lib/outbound-queue";
+import { SpeechEndDetector } from "../../lib/speech-end-detector";
 
 export type ControlTrayProps = {
   videoRef: RefObject<HTMLVideoElement>;
@@ -58,6 +80,179 @@ const MediaStreamButton = memo(
     )
 );
 
+type ReconnectionStatusProps = {
+  client: GenAILiveClient;
+  connectionState: ConnectionState;
+};
+
+/**
+ * badge counting down to the next reconnect attempt, with a way to skip
+ * the wait or to try again once the client gave up
+ */
+const ReconnectionStatus = memo(
+  ({ client, connectionState }: ReconnectionStatusProps) => {
+    const [nextAttemptAt, setNextAttemptAt] = useState<number | null>(
+      () => client.reconnectSchedule?.at ?? null
+    );
+    const [now, setNow] = useState(() => Date.now());
+    const [queue, setQueue] = useState(() => client.outbound.stats);
+
+    useEffect(() => {
+      const onScheduled = ({ at }: { at: number }) => setNextAttemptAt(at);
+      const onAttempt = () => setNextAttemptAt(null);
+      client
+        .on("reconnectscheduled", onScheduled)
+        .on("reconnectattempt", onAttempt)
+        .on("queuechange", setQueue);
+      return () => {
+        client
+          .off("reconnectscheduled", onScheduled)
+          .off("reconnectattempt", onAttempt)
+          .off("queuechange", setQueue);
+      };
+    }, [client]);
+
+    const waiting =
+      connectionState.status === "reconnecting" &&
+      nextAttemptAt !== null &&
+      nextAttemptAt > now;
+
+    useEffect(() => {
+      if (connectionState.status !== "reconnecting" || nextAttemptAt === null) {
+        return;
+      }
+      const interval = window.setInterval(() => setNow(Date.now()), 250);
+      return () => clearInterval(interval);
+    }, [connectionState.status, nextAttemptAt]);
+
+    if (connectionState.status === "reconnecting") {
+      return (
+        <div className="reconnection-status">
+          <span className="reconnection-spinner">↻</span>
+          {waiting
+            ? `Reconnecting in ${Math.ceil((nextAttemptAt! - now) / 1000)}s`
+            : `Reconnecting (attempt ${connectionState.attempt})...`}
+          {queue.depth > 0 && (
+            <span
+              className="queue-depth"
+              title={`${queue.dropped} chunk(s) dropped`}
+            >
+              {queue.depth} queued
+            </span>
+          )}
+          {waiting && (
+            <button className="retry-now" onClick={() => client.retryNow()}>
+              Retry now
+            </button>
+          )}
+        </div>
+      );
+    }
+    if (connectionState.status === "failed") {
+      return (
+        <div
+          className="reconnection-status failed"
+          title={connectionState.reason}
+        >
+          Connection failed
+          <span className="failure-reason">{connectionState.reason}</span>
+          <button className="retry-now" onClick={() => client.retryNow()}>
+            Retry
+          </button>
+        </div>
+      );
+    }
+    return null;
+  }
+);
+
+type ConversationAudioButtonProps = {
+  client: GenAILiveClient;
+  recorder: ConversationAudioRecorder;
+};
+
+const conversationAudioTracks: [ConversationAudioTrack, string][] = [
+  ["model", "Model speech"],
+  ["user", "Microphone"],
+  ["stereo", "Both (stereo)"],
+];
+
+/**
+ * opt-in recording of the conversation audio, with a menu to save it as WAV
+ * once recording stopped. The microphone side is fed by the tray's recorder.
+ */
+const ConversationAudioButton = memo(
+  ({ client, recorder }: ConversationAudioButtonProps) => {
+    const [recording, setRecording] = useState(recorder.recording);
+    const [menuOpen, setMenuOpen] = useState(false);
+
+    useEffect(() => {
+      const onAudio = recorder.addModelAudio.bind(recorder);
+      const onInterrupted = recorder.interruptModel.bind(recorder);
+      client.on("audio", onAudio).on("interrupted", onInterrupted);
+      recorder.on("change", setRecording);
+      return () => {
+        client.off("audio", onAudio).off("interrupted", onInterrupted);
+        recorder.off("change", setRecording);
+      };
+    }, [client, recorder]);
+
+    const toggleRecording = () => {
+      setMenuOpen(false);
+      if (recorder.recording) {
+        recorder.stop();
+      } else {
+        recorder.start();
+      }
+    };
+
+    return (
+      <div className="conversation-audio">
+        <button
+          className={cn("action-button", { recording })}
+          title={recording ? "Stop recording audio" : "Record conversation audio"}
+          onClick={toggleRecording}
+        >
+          <span className="material-symbols-outlined filled">
+            {recording ? "stop_circle" : "album"}
+          </span>
+        </button>
+        {!recording && !recorder.isEmpty && (
+          <button
+            className="action-button"
+            title="Save conversation audio"
+            onClick={() => setMenuOpen(!menuOpen)}
+          >
+            <span className="material-symbols-outlined">download</span>
+          </button>
+        )}
+        {menuOpen && (
+          <div className="conversation-audio-menu">
+            {conversationAudioTracks.map(([track, label]) => (
+              <button
+                key={track}
+                onClick={() => {
+                  recorder.download(track);
+                  setMenuOpen(false);
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+// hold to talk when automatic activity detection is off
+const PUSH_TO_TALK_KEY = "Space";
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
 function ControlTray({
   videoRef,
   children,
@@ -71,19 +266,78 @@ function ControlTray({
   const [webcam, screenCapture] = videoStreams;
   const [inVolume, setInVolume] = useState(0);
   const [audioRecorder] = useState(() => new AudioRecorder());
+  const [conversationAudio] = useState(() => new ConversationAudioRecorder());
+  const [speechEnd] = useState(() => new SpeechEndDetector());
   const [muted, setMuted] = useState(false);
-  const renderCanvasRef = useRef<HTMLCanvasElement>(null);
   const connectButtonRef = useRef<HTMLButtonElement>(null);
-  const inputBufferRef = useRef<Array<{ mimeType: string; data: string }>>([]);
   const {
     client,
     connected,
     connect,
     disconnect,
     volume,
-    isReconnecting,
-    conversationHistory
+    connectionState,
+    conversationHistory,
+    config,
+    model,
   } = useLiveAPIContext();
+  // models that don't take video input get no video buttons
+  const videoInput = supportsVideo && (findLiveModel(model)?.video ?? true);
+  const active = isActive(connectionState);
+  const manualActivity =
+    !!config.realtimeInputConfig?.automaticActivityDetection?.disabled;
+  const [talking, setTalking] = useState(false);
+  // read by the recorder callback, which must not restart on every press
+  const talkingRef = useRef(false);
+
+  const startTalking = useCallback(() => {
+    if (!connected || talkingRef.current) return;
+    talkingRef.current = true;
+    setTalking(true);
+    client.sendActivityStart();
+  }, [client, connected]);
+
+  const stopTalking = useCallback(() => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setTalking(false);
+    client.sendActivityEnd();
+  }, [client]);
+
+  // muting ends the audio stream so the server flushes its activity detection
+  const toggleMute = useCallback(() => {
+    if (!muted && active) {
+      client.sendAudioStreamEnd();
+    }
+    setMuted(!muted);
+  }, [client, muted, active]);
+
+  useEffect(() => {
+    if (!manualActivity || !connected) {
+      talkingRef.current = false;
+      setTalking(false);
+      return;
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code === PUSH_TO_TALK_KEY && !e.repeat && !isEditable(e.target)) {
+        e.preventDefault();
+        startTalking();
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === PUSH_TO_TALK_KEY) {
+        stopTalking();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", stopTalking);
+    };
+  }, [manualActivity, connected, startTalking, stopTalking]);
 
   useEffect(() => {
     if (!connected && connectButtonRef.current) {
@@ -97,74 +351,48 @@ function ControlTray({
     );
   }, [inVolume]);
 
-  // Handle audio stream during reconnections
+  // keeps recording while the client reconnects, it queues what it can't send
   useEffect(() => {
     const onData = (base64: string) => {
-      if (connected && !isReconnecting) {
-        client.sendRealtimeInput([{
-          mimeType: "audio/pcm;rate=16000",
-          data: base64,
-        }]);
-      } else if (!connected) {
-        inputBufferRef.current.push({
-          mimeType: "audio/pcm;rate=16000",
-          data: base64
-        });
+      conversationAudio.addUserAudio(base64);
+      // in manual mode only speech between activityStart and activityEnd is sent
+      if (client.manualActivityDetection && !talkingRef.current) {
+        return;
       }
+      client.sendAudio({
+        mimeType: "audio/pcm;rate=16000",
+        data: base64,
+      });
     };
 
-    if (connected && !muted && !isReconnecting) {
-      audioRecorder.on("data", onData).on("volume", setInVolume).start();
-      
-      // Flush buffered inputs after reconnection
-      if (inputBufferRef.current.length > 0) {
-        inputBufferRef.current.forEach(input => {
-          client.sendRealtimeInput([input]);
-        });
-        inputBufferRef.current = [];
+    // for the speechToAudio latency, manual mode has activityEnd instead
+    const onVolume = (volume: number) => {
+      setInVolume(volume);
+      const endedAt = client.manualActivityDetection
+        ? null
+        : speechEnd.update(volume);
+      if (endedAt !== null) {
+        client.markSpeechEnd(endedAt);
       }
+    };
+
+    if (active && !muted) {
+      audioRecorder.on("data", onData).on("volume", onVolume).start();
     } else {
       audioRecorder.stop();
+      speechEnd.reset();
     }
 
     return () => {
-      audioRecorder.off("data", onData).off("volume", setInVolume);
+      audioRecorder.off("data", onData).off("volume", onVolume);
     };
-  }, [connected, client, muted, audioRecorder, isReconnecting]);
-
-// Handle video stream during reconnections
-useEffect(() => {
-  if (!connected || isReconnecting) return;
-
-  let timeoutId = -1;
-  const canvas = renderCanvasRef.current;
-  const video = videoRef.current;
-
-  function sendVideoFrame() {
-    if (!video || !canvas || !activeVideoStream) return;
-
-    const ctx = canvas.getContext("2d")!;
-    canvas.width = video.videoWidth * 0.25;
-    canvas.height = video.videoHeight * 0.25;
-    
-    if (canvas.width + canvas.height > 0) {
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const base64 = canvas.toDataURL("image/jpeg", 1.0);
-      const data = base64.slice(base64.indexOf(",") + 1);
-      client.sendRealtimeInput([{ mimeType: "image/jpeg", data }]);
-    }
-    
-      if (connected) {
-        timeoutId = window.setTimeout(sendVideoFrame, 1000 / 0.5);
-      }
-    }
-    if (connected && activeVideoStream !== null) {
-      requestAnimationFrame(sendVideoFrame);
-    }
-    return () => {
-      clearTimeout(timeoutId);
-    };
-  }, [connected, activeVideoStream, client, videoRef]);
+  }, [active, client, muted, audioRecorder, conversationAudio, speechEnd]);
+
+  const sendVideo = useCallback(
+    (frame: RealtimeChunk) => client.sendVideo(frame),
+    [client]
+  );
+  useVideoFrames(videoRef, activeVideoStream, active, sendVideo);
 
   //handler for swapping from one video-stream to the next
   const changeStreams = (next?: UseMediaStreamResult) => async () => {
@@ -182,19 +410,11 @@ useEffect(() => {
 
   return (
     <section className="control-tray">
-      <canvas style={{ display: "none" }} ref={renderCanvasRef} />
-
-        {/* Reconnection status badge */}
-        {isReconnecting && (
-        <div className="reconnection-status">
-          <span className="reconnection-spinner">↻</span>
-          Reconnecting...
-        </div>
-      )}
-      <nav className={cn("actions-nav", { disabled: !connected })}>
+      <ReconnectionStatus client={client} connectionState={connectionState} />
+      <nav className={cn("actions-nav", { disabled: !active })}>
         <button
           className={cn("action-button mic-button")}
-          onClick={() => setMuted(!muted)}
+          onClick={toggleMute}
         >
 
           
@@ -209,7 +429,22 @@ useEffect(() => {
           <AudioPulse volume={volume} active={connected} hover={false} />
         </div>
 
-        {supportsVideo && (
+        {manualActivity && (
+          <button
+            className={cn("action-button push-to-talk", { talking })}
+            title="Hold to talk (or hold Space)"
+            disabled={!connected || muted}
+            onPointerDown={startTalking}
+            onPointerUp={stopTalking}
+            onPointerLeave={stopTalking}
+          >
+            <span className="material-symbols-outlined filled">
+              {talking ? "record_voice_over" : "voice_over_off"}
+            </span>
+          </button>
+        )}
+
+        {videoInput && (
           <>
             <MediaStreamButton
               isStreaming={screenCapture.isStreaming}
@@ -230,25 +465,27 @@ useEffect(() => {
         {children}
       </nav>
 
-      <div className={cn("connection-container", { connected })}>
+      <div className={cn("connection-container", { connected: active })}>
         <button
           ref={connectButtonRef}
-          className={cn("action-button connect-toggle", { 
-            connected,
-            disabled: isReconnecting
+          className={cn("action-button connect-toggle", {
+            connected: active,
+            disabled: connectionState.status === "closing"
           })}
-          onClick={connected ? disconnect : connect}
-          disabled={isReconnecting}
+          onClick={active ? disconnect : connect}
+          disabled={connectionState.status === "closing"}
         >
           <span className="material-symbols-outlined filled">
-            {isReconnecting ? "sync" : connected ? "pause" : "play_arrow"}
+            {connected ? "pause" : active ? "sync" : "play_arrow"}
           </span>
         </button>
         <span className="text-indicator">
-          {isReconnecting ? "Reconnecting..." : "Streaming"}
+          {describeConnectionState(connectionState)}
         </span>
       </div>
-      
+
+      <ConversationAudioButton client={client} recorder={conversationAudio} />
+
       {enableEditingSettings && <SettingsDialog />}
     </section>
   );
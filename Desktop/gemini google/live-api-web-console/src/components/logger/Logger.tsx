@@ -17,8 +17,8 @@
 import "./logger.scss";
 
 import cn from "classnames";
-import { memo, ReactNode } from "react";
-import { useLoggerStore } from "../../lib/store-logger";
+import { createContext, memo, ReactNode, useContext } from "react";
+import { LoggerStore, useLoggerStore } from "../../lib/store-logger";
 import SyntaxHighlighter from "react-syntax-highlighter";
 import { vs2015 as dark } from "react-syntax-highlighter/dist/esm/styles/hljs";
 import {
@@ -34,6 +34,11 @@ import {
   Part,
 } from "@google/genai";
 
+/**
+ * the log store the entries are read from, the app-wide log by default
+ */
+const LoggerStoreContext = createContext<LoggerStore>(useLoggerStore);
+
 const formatTime = (d: Date) => d.toLocaleTimeString().slice(0, -3);
 
 const LogEntry = memo(
@@ -143,12 +148,36 @@ const ClientContentLog = memo(({ message }: Message) => {
 });
 
 const ToolCallLog = memo(({ message }: Message) => {
-  const { toolCall } = message as { toolCall: LiveServerToolCall };
+  const { toolCall, background = [] } = message as {
+    toolCall: LiveServerToolCall;
+    background?: string[];
+  };
+  const cancelledIds = useContext(LoggerStoreContext)(
+    (state) => state.cancelledToolCallIds
+  );
   return (
     <div className={cn("rich-log tool-call")}>
       {toolCall.functionCalls?.map((fc, i) => (
-        <div key={fc.id} className="part part-functioncall">
-          <h5>Function call: {fc.name}</h5>
+        <div
+          key={fc.id}
+          className={cn("part part-functioncall", {
+            cancelled: fc.id && cancelledIds.has(fc.id),
+          })}
+        >
+          <h5>
+            Function call: {fc.name}
+            {background.includes(fc.id || fc.name || "") && (
+              <span
+                className="status-badge background"
+                title="NON_BLOCKING, the model kept talking while it ran"
+              >
+                background
+              </span>
+            )}
+            {fc.id && cancelledIds.has(fc.id) && (
+              <span className="status-badge">cancelled</span>
+            )}
+          </h5>
           <SyntaxHighlighter language="json" style={dark}>
             {JSON.stringify(fc, null, "  ")}
           </SyntaxHighlighter>
@@ -179,7 +208,17 @@ const ToolResponseLog = memo(
     <div className={cn("rich-log tool-response")}>
       {(message as LiveClientToolResponse).functionResponses?.map((fc) => (
         <div key={`tool-response-${fc.id}`} className="part">
-          <h5>Function Response: {fc.id}</h5>
+          <h5>
+            Function Response: {fc.id}
+            {fc.scheduling && (
+              <span className="status-badge scheduling">
+                {fc.scheduling.toLowerCase().replace("_", " ")}
+              </span>
+            )}
+            {fc.willContinue && (
+              <span className="status-badge">continues</span>
+            )}
+          </h5>
           <SyntaxHighlighter language="json" style={dark}>
             {JSON.stringify(fc.response, null, "  ")}
           </SyntaxHighlighter>
@@ -214,6 +253,7 @@ export type LoggerFilterType = "conversations" | "tools" | "none";
 
 export type LoggerProps = {
   filter: LoggerFilterType;
+  store?: LoggerStore;
 };
 
 const filters: Record<LoggerFilterType, (log: StreamingLog) => boolean> = {
@@ -260,20 +300,25 @@ const component = (log: StreamingLog) => {
   return AnyMessage;
 };
 
-export default function Logger({ filter = "none" }: LoggerProps) {
-  const { logs } = useLoggerStore();
+export default function Logger({
+  filter = "none",
+  store = useLoggerStore,
+}: LoggerProps) {
+  const { logs } = store();
 
   const filterFn = filters[filter];
 
   return (
-    <div className="logger">
-      <ul className="logger-list">
-        {logs.filter(filterFn).map((log, key) => {
-          return (
-            <LogEntry MessageComponent={component(log)} log={log} key={key} />
-          );
-        })}
-      </ul>
-    </div>
+    <LoggerStoreContext.Provider value={store}>
+      <div className="logger">
+        <ul className="logger-list">
+          {logs.filter(filterFn).map((log, key) => {
+            return (
+              <LogEntry MessageComponent={component(log)} log={log} key={key} />
+            );
+          })}
+        </ul>
+      </div>
+    </LoggerStoreContext.Provider>
   );
 }
@@ -0,0 +1,374 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./multi-session.scss";
+
+import cn from "classnames";
+import { memo, useCallback, useEffect, useRef, useState } from "react";
+import { Modality } from "@google/genai";
+import { LiveClientOptions } from "../../types/types";
+import {
+  useConnectionState,
+  useMultiSession,
+  useSessionAudio,
+} from "../../hooks/use-multi-session";
+import { useVideoFrames } from "../../hooks/use-video-frames";
+import { useWebcam } from "../../hooks/use-webcam";
+import { useScreenCapture } from "../../hooks/use-screen-capture";
+import { UseMediaStreamResult } from "../../hooks/use-media-stream-mux";
+import { AudioRecorder } from "../../lib/audio-recorder";
+import {
+  describeConnectionState,
+  isActive,
+} from "../../lib/connection-state";
+import {
+  DEFAULT_LIVE_MODEL,
+  findLiveModel,
+  LIVE_MODELS,
+  validateLiveConfig,
+  voicesFor,
+} from "../../lib/model-registry";
+import { MultiSessionManager, SessionSlot } from "../../lib/multi-session";
+import { RealtimeChunk } from "../../lib/outbound-queue";
+import { SpeechEndDetector } from "../../lib/speech-end-detector";
+import Logger from "../logger/Logger";
+import LatencyPanel from "../usage-meter/LatencyPanel";
+
+const initialSessions = [
+  { label: "A", model: DEFAULT_LIVE_MODEL },
+  { label: "B", model: DEFAULT_LIVE_MODEL },
+];
+
+const systemInstructionText = (slot: SessionSlot) =>
+  typeof slot.config.systemInstruction === "string"
+    ? slot.config.systemInstruction
+    : "";
+
+type SessionColumnProps = {
+  slot: SessionSlot;
+  manager: MultiSessionManager;
+};
+
+/**
+ * one session: its settings, connection and log
+ */
+const SessionColumn = memo(({ slot, manager }: SessionColumnProps) => {
+  const connectionState = useConnectionState(slot.client);
+  const active = isActive(connectionState);
+  const [outputMuted, setOutputMuted] = useState(false);
+  useSessionAudio(slot.client, outputMuted);
+
+  const { config } = slot;
+  const modality = config.responseModalities?.[0] || Modality.AUDIO;
+  const voice = config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+  const capabilities = findLiveModel(slot.model);
+  const problems = validateLiveConfig(slot.model, config);
+
+  // a failed connect already left its reason on the client's state, which is
+  // what the column shows, so the rejection is settled like in connectAll
+  const connect = () => manager.connect(slot.id).catch(() => false);
+
+  const logsRef = useRef<HTMLDivElement>(null);
+  const logs = slot.logs((state) => state.logs);
+  useEffect(() => {
+    logsRef.current?.scrollTo({ top: logsRef.current.scrollHeight });
+  }, [logs]);
+
+  return (
+    <section className="session-column">
+      <header>
+        <input
+          className="session-label"
+          value={slot.label}
+          onChange={(e) => manager.update(slot.id, { label: e.target.value })}
+        />
+        <span
+          className={cn("session-status", connectionState.status)}
+          title={
+            connectionState.status === "failed"
+              ? connectionState.reason
+              : undefined
+          }
+        >
+          {describeConnectionState(connectionState)}
+        </span>
+        <button
+          className="material-symbols-outlined"
+          title={outputMuted ? "Unmute output" : "Mute output"}
+          onClick={() => setOutputMuted(!outputMuted)}
+        >
+          {outputMuted ? "volume_off" : "volume_up"}
+        </button>
+        <button
+          className="material-symbols-outlined"
+          title={active ? "Disconnect" : "Connect"}
+          disabled={connectionState.status === "closing"}
+          onClick={() =>
+            active ? slot.client.disconnect() : connect()
+          }
+        >
+          {active ? "pause" : "play_arrow"}
+        </button>
+        <button
+          className="material-symbols-outlined"
+          title="Remove session"
+          onClick={() => manager.remove(slot.id)}
+        >
+          close
+        </button>
+      </header>
+      <fieldset className="session-settings" disabled={active}>
+        <label>
+          Model
+          <input
+            list="live-models"
+            value={slot.model}
+            onChange={(e) => manager.update(slot.id, { model: e.target.value })}
+          />
+        </label>
+        <label>
+          Response
+          <select
+            value={modality}
+            onChange={(e) =>
+              manager.update(slot.id, {
+                config: {
+                  ...config,
+                  responseModalities: [e.target.value as Modality],
+                },
+              })
+            }
+          >
+            <option value={Modality.AUDIO}>audio</option>
+            <option
+              value={Modality.TEXT}
+              disabled={capabilities && !capabilities.textOutput}
+            >
+              text
+            </option>
+          </select>
+        </label>
+        <label>
+          Voice
+          <select
+            value={voice || ""}
+            onChange={(e) => {
+              const { speechConfig, ...rest } = config;
+              manager.update(slot.id, {
+                config: e.target.value
+                  ? {
+                      ...rest,
+                      speechConfig: {
+                        voiceConfig: {
+                          prebuiltVoiceConfig: { voiceName: e.target.value },
+                        },
+                      },
+                    }
+                  : rest,
+              });
+            }}
+          >
+            <option value="">default</option>
+            {voicesFor(slot.model).map((v) => (
+              <option key={v} value={v}>
+                {v}
+              </option>
+            ))}
+          </select>
+        </label>
+        <textarea
+          placeholder="System instructions"
+          value={systemInstructionText(slot)}
+          onChange={(e) =>
+            manager.update(slot.id, {
+              config: { ...config, systemInstruction: e.target.value },
+            })
+          }
+        />
+      </fieldset>
+      {connectionState.status === "failed" && (
+        <p className="session-problems">{connectionState.reason}</p>
+      )}
+      {problems.length > 0 && (
+        <p className="session-problems">{problems.join(", ")}</p>
+      )}
+      <LatencyPanel client={slot.client} />
+      <div className="session-logs" ref={logsRef}>
+        <Logger filter="none" store={slot.logs} />
+      </div>
+    </section>
+  );
+});
+
+export type MultiSessionConsoleProps = {
+  options: LiveClientOptions;
+};
+
+/**
+ * Compares models and configs side by side: the microphone, the active video
+ * source and typed text go to every session, each session plays its own audio
+ * and keeps its own log.
+ */
+export default function MultiSessionConsole({
+  options,
+}: MultiSessionConsoleProps) {
+  const { manager, slots } = useMultiSession(options, initialSessions);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoStreams = [useWebcam(), useScreenCapture()];
+  const [webcam, screenCapture] = videoStreams;
+  const [activeVideoStream, setActiveVideoStream] =
+    useState<MediaStream | null>(null);
+  const [audioRecorder] = useState(() => new AudioRecorder());
+  const [speechEnd] = useState(() => new SpeechEndDetector());
+  const [micOn, setMicOn] = useState(false);
+  const [textInput, setTextInput] = useState("");
+
+  useEffect(() => {
+    const onData = (data: string) =>
+      manager.sendAudio({ mimeType: "audio/pcm;rate=16000", data });
+    // starts every session's speechToAudio latency
+    const onVolume = (volume: number) => {
+      const endedAt = speechEnd.update(volume);
+      if (endedAt !== null) {
+        manager.slots.forEach((slot) => slot.client.markSpeechEnd(endedAt));
+      }
+    };
+    if (micOn) {
+      audioRecorder.on("data", onData).on("volume", onVolume).start();
+    } else {
+      audioRecorder.stop();
+      speechEnd.reset();
+    }
+    return () => {
+      audioRecorder.off("data", onData).off("volume", onVolume);
+    };
+  }, [micOn, manager, audioRecorder, speechEnd]);
+
+  useEffect(() => () => audioRecorder.stop(), [audioRecorder]);
+
+  const toggleMic = () => {
+    if (micOn) {
+      manager.sendAudioStreamEnd();
+    }
+    setMicOn(!micOn);
+  };
+
+  const sendVideo = useCallback(
+    (frame: RealtimeChunk) => manager.sendVideo(frame),
+    [manager]
+  );
+  useVideoFrames(videoRef, activeVideoStream, true, sendVideo);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = activeVideoStream;
+    }
+  }, [activeVideoStream]);
+
+  const changeStreams = (next?: UseMediaStreamResult) => async () => {
+    if (next) {
+      setActiveVideoStream(await next.start());
+    } else {
+      setActiveVideoStream(null);
+    }
+    videoStreams.filter((msr) => msr !== next).forEach((msr) => msr.stop());
+  };
+
+  const handleSubmit = () => {
+    if (textInput) {
+      manager.send([{ text: textInput }]);
+      setTextInput("");
+    }
+  };
+
+  return (
+    <div className="multi-session-console">
+      <header className="multi-session-toolbar">
+        <a href="#console" className="back-link">
+          <span className="material-symbols-outlined">arrow_back</span>
+          Console
+        </a>
+        <h2>Compare</h2>
+        <button onClick={() => manager.add({ model: DEFAULT_LIVE_MODEL })}>
+          <span className="material-symbols-outlined">add</span>
+          Session
+        </button>
+        <button onClick={() => manager.connectAll()}>
+          <span className="material-symbols-outlined">play_arrow</span>
+          Connect all
+        </button>
+        <button onClick={() => manager.disconnectAll()}>
+          <span className="material-symbols-outlined">pause</span>
+          Disconnect all
+        </button>
+        <button className={cn({ on: micOn })} onClick={toggleMic}>
+          <span className="material-symbols-outlined filled">
+            {micOn ? "mic" : "mic_off"}
+          </span>
+        </button>
+        <button
+          className={cn({ on: webcam.isStreaming })}
+          onClick={changeStreams(webcam.isStreaming ? undefined : webcam)}
+        >
+          <span className="material-symbols-outlined">
+            {webcam.isStreaming ? "videocam_off" : "videocam"}
+          </span>
+        </button>
+        <button
+          className={cn({ on: screenCapture.isStreaming })}
+          onClick={changeStreams(
+            screenCapture.isStreaming ? undefined : screenCapture
+          )}
+        >
+          <span className="material-symbols-outlined">
+            {screenCapture.isStreaming ? "cancel_presentation" : "present_to_all"}
+          </span>
+        </button>
+        <input
+          className="multi-session-text"
+          placeholder="Send text to every session"
+          value={textInput}
+          onChange={(e) => setTextInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+        />
+      </header>
+      <video
+        className={cn("multi-session-video", { hidden: !activeVideoStream })}
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+      />
+      <datalist id="live-models">
+        {LIVE_MODELS.map((m) => (
+          <option key={m.name} value={m.name}>
+            {m.label}
+          </option>
+        ))}
+      </datalist>
+      <div className="session-columns">
+        {slots.map((slot) => (
+          <SessionColumn key={slot.id} slot={slot} manager={manager} />
+        ))}
+      </div>
+    </div>
+  );
+}
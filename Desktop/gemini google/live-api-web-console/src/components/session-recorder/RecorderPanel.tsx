@@ -0,0 +1,137 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./session-recorder.scss";
+
+import { ChangeEvent, useEffect, useState } from "react";
+import { LiveConnectConfig } from "@google/genai";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { parseRecording } from "../../lib/session-recorder";
+import { useReplayStore } from "../../lib/store-replay";
+
+const speeds = [
+  { value: 1, label: "1x" },
+  { value: 2, label: "2x" },
+  { value: 4, label: "4x" },
+  { value: 0, label: "max" },
+];
+
+/**
+ * records the session to a JSONL file, or plays such a file back in place of
+ * the server
+ */
+export default function RecorderPanel() {
+  const { client, setModel, setConfig } = useLiveAPIContext();
+  const { replay, startReplay, setReplaySpeed, stopReplay } = useReplayStore();
+  const [recording, setRecording] = useState(client.recorder.recording);
+  const [entries, setEntries] = useState(client.recorder.length);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onChange = (length: number) => {
+      setEntries(length);
+      setRecording(client.recorder.recording);
+    };
+    onChange(client.recorder.length);
+    client.recorder.on("change", onChange);
+    return () => {
+      client.recorder.off("change", onChange);
+    };
+  }, [client]);
+
+  const loadRecording = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const recorded = parseRecording(await file.text());
+      // replay with the settings the session was recorded with
+      const setup = recorded.find((entry) => entry.kind === "connect")?.data as
+        | { model: string; config?: LiveConnectConfig }
+        | undefined;
+      if (setup) {
+        const { sessionResumption, ...config } = setup.config || {};
+        setModel(setup.model);
+        setConfig(config);
+      }
+      setError(null);
+      startReplay(file.name, recorded);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error");
+    }
+  };
+
+  return (
+    <details className="recorder-panel">
+      <summary>
+        <span className="material-symbols-outlined">
+          {replay ? "replay" : "radio_button_checked"}
+        </span>
+        {replay ? (
+          <span>replaying {replay.name}</span>
+        ) : (
+          <span className={recording ? "recording" : ""}>
+            {recording ? "recording" : "recorder"} · {entries} message(s)
+          </span>
+        )}
+      </summary>
+      <div className="recorder-actions">
+        {!replay && (
+          <>
+            <button
+              onClick={() =>
+                recording ? client.recorder.stop() : client.recorder.start()
+              }
+            >
+              {recording ? "stop" : "record"}
+            </button>
+            <button
+              disabled={entries === 0}
+              onClick={() => client.recorder.download()}
+            >
+              download
+            </button>
+          </>
+        )}
+        <label className="recorder-file">
+          replay file
+          <input type="file" accept=".jsonl" onChange={loadRecording} />
+        </label>
+        {replay && (
+          <>
+            <select
+              value={replay.speed}
+              onChange={(e) => setReplaySpeed(Number(e.target.value))}
+            >
+              {speeds.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => startReplay(replay.name, replay.entries)}>
+              restart
+            </button>
+            <button onClick={stopReplay}>exit replay</button>
+          </>
+        )}
+      </div>
+      {error && <p className="recorder-error">{error}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,197 @@
+import Select from "react-select";
+import {
+  ConnectionProfile,
+  ConnectionProfileKind,
+  connectionProfileKinds,
+  profileProblem,
+} from "../../lib/connection-profile";
+import {
+  useActiveConnectionProfile,
+  useConnectionProfileStore,
+} from "../../lib/store-connection-profiles";
+
+type ProfileOption = { value: string; label: string };
+
+const toOption = (profile: ConnectionProfile): ProfileOption => ({
+  value: profile.id,
+  label: `${profile.name} · ${connectionProfileKinds[profile.kind]}`,
+});
+
+type FieldProps = {
+  label: string;
+  value?: string;
+  placeholder?: string;
+  secret?: boolean;
+  onChange: (value: string) => void;
+};
+
+function Field({ label, value, placeholder, secret, onChange }: FieldProps) {
+  return (
+    <label className="text-setting">
+      {label}
+      <input
+        type={secret ? "password" : "text"}
+        autoComplete="off"
+        value={value || ""}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </label>
+  );
+}
+
+export default function ConnectionProfileSettings() {
+  const {
+    builtins,
+    profiles,
+    addProfile,
+    updateProfile,
+    removeProfile,
+    selectProfile,
+  } = useConnectionProfileStore();
+  const active = useActiveConnectionProfile();
+  const options = [...builtins, ...profiles].map(toOption);
+  const problem = active && profileProblem(active);
+
+  const update = (changes: Record<string, string>) =>
+    active &&
+    updateProfile(
+      active.id,
+      // empty fields fall back to the defaults
+      Object.fromEntries(
+        Object.entries(changes).map(([k, v]) => [k, v || undefined])
+      ) as Partial<ConnectionProfile>
+    );
+
+  return (
+    <div className="connection-profile-settings">
+      <h4>Connection</h4>
+      <div className="profile-row">
+        <Select
+          className="react-select"
+          classNamePrefix="react-select"
+          styles={{
+            control: (baseStyles) => ({
+              ...baseStyles,
+              background: "var(--Neutral-15)",
+              color: "var(--Neutral-90)",
+              minHeight: "33px",
+              maxHeight: "33px",
+              border: 0,
+            }),
+            option: (styles, { isFocused, isSelected }) => ({
+              ...styles,
+              backgroundColor: isFocused
+                ? "var(--Neutral-30)"
+                : isSelected
+                  ? "var(--Neutral-20)"
+                  : undefined,
+            }),
+          }}
+          value={active && toOption(active)}
+          options={options}
+          onChange={(e) => e && selectProfile(e.value)}
+        />
+        {(Object.keys(connectionProfileKinds) as ConnectionProfileKind[]).map(
+          (kind) => (
+            <button
+              key={kind}
+              className="profile-add"
+              title={`Add a ${connectionProfileKinds[kind]} profile`}
+              onClick={() => addProfile(kind)}
+            >
+              + {connectionProfileKinds[kind]}
+            </button>
+          )
+        )}
+      </div>
+      {active?.builtin && (
+        <p className="small">Defined in .env, add a profile to edit it.</p>
+      )}
+      {active && !active.builtin && (
+        <div className="profile-fields">
+          <Field
+            label="Name"
+            value={active.name}
+            onChange={(name) => updateProfile(active.id, { name })}
+          />
+          {active.kind === "gemini" && (
+            <>
+              <Field
+                label="API key"
+                secret
+                value={active.apiKey}
+                onChange={(apiKey) => update({ apiKey })}
+              />
+              <Field
+                label="Token URL"
+                value={active.authTokenUrl}
+                placeholder="http://localhost:8787/token"
+                onChange={(authTokenUrl) => update({ authTokenUrl })}
+              />
+            </>
+          )}
+          {active.kind === "vertex" && (
+            <>
+              <Field
+                label="Project"
+                value={active.project}
+                onChange={(project) => updateProfile(active.id, { project })}
+              />
+              <Field
+                label="Location"
+                value={active.location}
+                onChange={(location) => updateProfile(active.id, { location })}
+              />
+              <Field
+                label="Base URL"
+                value={active.baseUrl}
+                placeholder="default"
+                onChange={(baseUrl) => update({ baseUrl })}
+              />
+              <Field
+                label="API key"
+                secret
+                value={active.apiKey}
+                placeholder="express mode key"
+                onChange={(apiKey) => update({ apiKey })}
+              />
+            </>
+          )}
+          {active.kind === "proxy" && (
+            <>
+              <Field
+                label="Base URL"
+                value={active.baseUrl}
+                onChange={(baseUrl) => updateProfile(active.id, { baseUrl })}
+              />
+              <Field
+                label="API key"
+                secret
+                value={active.apiKey}
+                placeholder="optional"
+                onChange={(apiKey) => update({ apiKey })}
+              />
+            </>
+          )}
+          <Field
+            label="API version"
+            value={active.apiVersion}
+            placeholder="default"
+            onChange={(apiVersion) => update({ apiVersion })}
+          />
+          <button
+            className="profile-remove"
+            onClick={() => removeProfile(active.id)}
+          >
+            Remove profile
+          </button>
+        </div>
+      )}
+      {problem && <p className="small profile-problem">{problem}</p>}
+      {active && !active.builtin && (
+        <p className="small">Profiles, including keys, are saved in this browser.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useCallback } from "react";
+import { ContextWindowCompressionConfig } from "@google/genai";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+
+export default function ContextCompressionSettings() {
+  const { config, setConfig } = useLiveAPIContext();
+  const compression = config.contextWindowCompression;
+
+  const update = useCallback(
+    (next?: ContextWindowCompressionConfig) => {
+      const { contextWindowCompression, ...rest } = config;
+      setConfig(next ? { ...rest, contextWindowCompression: next } : rest);
+    },
+    [config, setConfig]
+  );
+
+  // token counts are int64 fields, the SDK types them as strings
+  const tokens = (value: string) =>
+    value === "" ? undefined : `${Math.max(0, Math.round(Number(value)))}`;
+
+  return (
+    <div className="context-compression-settings">
+      <h4>Context window</h4>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          checked={!!compression}
+          onChange={(e) =>
+            update(e.target.checked ? { slidingWindow: {} } : undefined)
+          }
+        />
+        Sliding window compression, keeps long sessions going past the
+        context limit
+      </label>
+      <div className="mode-selectors">
+        <label className="number-setting">
+          Trigger tokens
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            disabled={!compression}
+            value={compression?.triggerTokens ?? ""}
+            placeholder="default"
+            onChange={(e) =>
+              update({ ...compression, triggerTokens: tokens(e.target.value) })
+            }
+          />
+        </label>
+        <label className="number-setting">
+          Target tokens
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            disabled={!compression}
+            value={compression?.slidingWindow?.targetTokens ?? ""}
+            placeholder="half the trigger"
+            onChange={(e) =>
+              update({
+                ...compression,
+                slidingWindow: { targetTokens: tokens(e.target.value) },
+              })
+            }
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
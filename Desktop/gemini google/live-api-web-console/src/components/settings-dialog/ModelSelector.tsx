@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import CreatableSelect from "react-select/creatable";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import {
+  findLiveModel,
+  LIVE_MODELS,
+  LiveModelCapabilities,
+  validateLiveConfig,
+} from "../../lib/model-registry";
+
+type ModelOption = { value: string; label: string };
+
+const modelOptions: ModelOption[] = LIVE_MODELS.map((m) => ({
+  value: m.name,
+  label: m.label,
+}));
+
+const capabilityLabels: [keyof LiveModelCapabilities, string][] = [
+  ["nativeAudio", "native audio"],
+  ["textOutput", "text output"],
+  ["transcription", "transcription"],
+  ["affectiveDialog", "affective dialog"],
+  ["proactiveAudio", "proactive audio"],
+  ["video", "video"],
+];
+
+export default function ModelSelector() {
+  const { model, setModel, config } = useLiveAPIContext();
+  const capabilities = findLiveModel(model);
+  const problems = useMemo(
+    () => validateLiveConfig(model, config),
+    [model, config]
+  );
+
+  return (
+    <div className="model-selector">
+      <div className="select-group">
+        <label htmlFor="model-selector">Model</label>
+        <CreatableSelect
+          id="model-selector"
+          className="react-select"
+          classNamePrefix="react-select"
+          styles={{
+            control: (baseStyles) => ({
+              ...baseStyles,
+              background: "var(--Neutral-15)",
+              color: "var(--Neutral-90)",
+              minHeight: "33px",
+              maxHeight: "33px",
+              border: 0,
+            }),
+            option: (styles, { isFocused, isSelected }) => ({
+              ...styles,
+              backgroundColor: isFocused
+                ? "var(--Neutral-30)"
+                : isSelected
+                  ? "var(--Neutral-20)"
+                  : undefined,
+            }),
+          }}
+          value={
+            modelOptions.find((o) => o.value === model) || {
+              value: model,
+              label: model,
+            }
+          }
+          options={modelOptions}
+          formatCreateLabel={(name) => `Use ${name}`}
+          onChange={(e) => e && setModel(e.value)}
+        />
+      </div>
+      <div className="model-capabilities small">
+        {capabilities
+          ? capabilityLabels.map(([key, label]) => (
+              <span
+                key={key}
+                className={capabilities[key] ? "supported" : "unsupported"}
+              >
+                {label}
+              </span>
+            ))
+          : "Not in the model registry, settings are not checked"}
+      </div>
+      {problems.length > 0 && (
+        <ul className="model-problems small">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { findLiveModel } from "../../lib/model-registry";
+
+export default function NativeAudioToggles() {
+  const { model, config, setConfig } = useLiveAPIContext();
+  const capabilities = findLiveModel(model);
+
+  const setAffectiveDialog = (enabled: boolean) => {
+    const { enableAffectiveDialog, ...rest } = config;
+    setConfig(enabled ? { ...rest, enableAffectiveDialog: true } : rest);
+  };
+
+  const setProactiveAudio = (enabled: boolean) => {
+    const { proactivity, ...rest } = config;
+    setConfig(enabled ? { ...rest, proactivity: { proactiveAudio: true } } : rest);
+  };
+
+  return (
+    <div className="select-group native-audio-toggles">
+      <label>Native audio</label>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          disabled={capabilities && !capabilities.affectiveDialog}
+          checked={!!config.enableAffectiveDialog}
+          onChange={(e) => setAffectiveDialog(e.target.checked)}
+        />
+        Affective dialog
+      </label>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          disabled={capabilities && !capabilities.proactiveAudio}
+          checked={!!config.proactivity?.proactiveAudio}
+          onChange={(e) => setProactiveAudio(e.target.checked)}
+        />
+        Proactive audio
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useCallback } from "react";
+import Select, { StylesConfig } from "react-select";
+import {
+  ActivityHandling,
+  AutomaticActivityDetection,
+  EndSensitivity,
+  RealtimeInputConfig,
+  StartSensitivity,
+} from "@google/genai";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+
+type Option<T> = { value: T; label: string };
+
+const startSensitivityOptions: Option<StartSensitivity>[] = [
+  { value: StartSensitivity.START_SENSITIVITY_UNSPECIFIED, label: "default" },
+  { value: StartSensitivity.START_SENSITIVITY_HIGH, label: "high" },
+  { value: StartSensitivity.START_SENSITIVITY_LOW, label: "low" },
+];
+
+const endSensitivityOptions: Option<EndSensitivity>[] = [
+  { value: EndSensitivity.END_SENSITIVITY_UNSPECIFIED, label: "default" },
+  { value: EndSensitivity.END_SENSITIVITY_HIGH, label: "high" },
+  { value: EndSensitivity.END_SENSITIVITY_LOW, label: "low" },
+];
+
+const activityHandlingOptions: Option<ActivityHandling>[] = [
+  {
+    value: ActivityHandling.ACTIVITY_HANDLING_UNSPECIFIED,
+    label: "default",
+  },
+  {
+    value: ActivityHandling.START_OF_ACTIVITY_INTERRUPTS,
+    label: "speech interrupts",
+  },
+  { value: ActivityHandling.NO_INTERRUPTION, label: "no interruption" },
+];
+
+const selectStyles: StylesConfig<Option<string>, false> = {
+  control: (baseStyles) => ({
+    ...baseStyles,
+    background: "var(--Neutral-15)",
+    color: "var(--Neutral-90)",
+    minHeight: "33px",
+    maxHeight: "33px",
+    border: 0,
+  }),
+  option: (styles, { isFocused, isSelected }) => ({
+    ...styles,
+    backgroundColor: isFocused
+      ? "var(--Neutral-30)"
+      : isSelected
+        ? "var(--Neutral-20)"
+        : undefined,
+  }),
+};
+
+// leaves out unset fields so the server defaults apply
+function compact<T extends object>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(
+    ([, v]) => v !== undefined && !`${v}`.endsWith("_UNSPECIFIED")
+  );
+  return entries.length ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+export default function RealtimeInputSettings() {
+  const { config, setConfig } = useLiveAPIContext();
+  const realtimeInputConfig = config.realtimeInputConfig || {};
+  const detection = realtimeInputConfig.automaticActivityDetection || {};
+  const manual = !!detection.disabled;
+
+  const update = useCallback(
+    (
+      changes: Partial<RealtimeInputConfig>,
+      detectionChanges: Partial<AutomaticActivityDetection> = {}
+    ) => {
+      const { realtimeInputConfig: previous, ...rest } = config;
+      const next = compact<RealtimeInputConfig>({
+        ...previous,
+        ...changes,
+        automaticActivityDetection: compact<AutomaticActivityDetection>({
+          ...previous?.automaticActivityDetection,
+          ...detectionChanges,
+        }),
+      });
+      setConfig(next ? { ...rest, realtimeInputConfig: next } : rest);
+    },
+    [config, setConfig]
+  );
+
+  const numberValue = (value: string) =>
+    value === "" ? undefined : Math.max(0, Number(value));
+
+  return (
+    <div className="realtime-input-settings">
+      <h4>Voice activity</h4>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          checked={!manual}
+          onChange={(e) => update({}, { disabled: !e.target.checked || undefined })}
+        />
+        Automatic activity detection
+        {manual && (
+          <span className="small">
+            {" "}
+            (push to talk with the button or by holding Space)
+          </span>
+        )}
+      </label>
+      <div className="mode-selectors">
+        <div className="select-group">
+          <label htmlFor="start-sensitivity-selector">Start sensitivity</label>
+          <Select
+            id="start-sensitivity-selector"
+            className="react-select"
+            classNamePrefix="react-select"
+            styles={selectStyles}
+            isDisabled={manual}
+            value={
+              startSensitivityOptions.find(
+                (o) => o.value === detection.startOfSpeechSensitivity
+              ) || startSensitivityOptions[0]
+            }
+            options={startSensitivityOptions}
+            onChange={(e) =>
+              e &&
+              update({}, { startOfSpeechSensitivity: e.value as StartSensitivity })
+            }
+          />
+        </div>
+        <div className="select-group">
+          <label htmlFor="end-sensitivity-selector">End sensitivity</label>
+          <Select
+            id="end-sensitivity-selector"
+            className="react-select"
+            classNamePrefix="react-select"
+            styles={selectStyles}
+            isDisabled={manual}
+            value={
+              endSensitivityOptions.find(
+                (o) => o.value === detection.endOfSpeechSensitivity
+              ) || endSensitivityOptions[0]
+            }
+            options={endSensitivityOptions}
+            onChange={(e) =>
+              e && update({}, { endOfSpeechSensitivity: e.value as EndSensitivity })
+            }
+          />
+        </div>
+        <div className="select-group">
+          <label htmlFor="activity-handling-selector">Interruptions</label>
+          <Select
+            id="activity-handling-selector"
+            className="react-select"
+            classNamePrefix="react-select"
+            styles={selectStyles}
+            value={
+              activityHandlingOptions.find(
+                (o) => o.value === realtimeInputConfig.activityHandling
+              ) || activityHandlingOptions[0]
+            }
+            options={activityHandlingOptions}
+            onChange={(e) =>
+              e && update({ activityHandling: e.value as ActivityHandling })
+            }
+          />
+        </div>
+      </div>
+      <div className="mode-selectors">
+        <label className="number-setting">
+          Prefix padding (ms)
+          <input
+            type="number"
+            min={0}
+            step={20}
+            disabled={manual}
+            value={detection.prefixPaddingMs ?? ""}
+            placeholder="default"
+            onChange={(e) =>
+              update({}, { prefixPaddingMs: numberValue(e.target.value) })
+            }
+          />
+        </label>
+        <label className="number-setting">
+          Silence duration (ms)
+          <input
+            type="number"
+            min={0}
+            step={50}
+            disabled={manual}
+            value={detection.silenceDurationMs ?? ""}
+            placeholder="default"
+            onChange={(e) =>
+              update({}, { silenceDurationMs: numberValue(e.target.value) })
+            }
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useCallback, useState } from "react";
 import Select from "react-select";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import { Modality } from "@google/genai";
+import { findLiveModel } from "../../lib/model-registry";
 
 const responseOptions = [
   { value: "audio", label: "audio" },
@@ -9,7 +10,8 @@ const responseOptions = [
 ];
 
 export default function ResponseModalitySelector() {
-  const { config, setConfig } = useLiveAPIContext();
+  const { config, setConfig, model } = useLiveAPIContext();
+  const textOutput = findLiveModel(model)?.textOutput ?? true;
 
   const [selectedOption, setSelectedOption] = useState<{
     value: string;
@@ -55,6 +57,7 @@ export default function ResponseModalitySelector() {
         }}
         defaultValue={selectedOption}
         options={responseOptions}
+        isOptionDisabled={(o) => o.value === "text" && !textOutput}
         onChange={(e) => {
           setSelectedOption(e);
           if (e && (e.value === "audio" || e.value === "text")) {
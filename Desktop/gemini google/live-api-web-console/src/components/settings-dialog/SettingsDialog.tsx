@@ -9,7 +9,20 @@ import "./settings-dialog.scss";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import VoiceSelector from "./VoiceSelector";
 import ResponseModalitySelector from "./ResponseModalitySelector";
-import { FunctionDeclaration, LiveConnectConfig, Tool } from "@google/genai";
+import TranscriptionToggles from "./TranscriptionToggles";
+import RealtimeInputSettings from "./RealtimeInputSettings";
+import ContextCompressionSettings from "./ContextCompressionSettings";
+import ConnectionProfileSettings from "./ConnectionProfileSettings";
+import ModelSelector from "./ModelSelector";
+import NativeAudioToggles from "./NativeAudioToggles";
+import { useToolDeclarations } from "../../hooks/use-tool";
+import { mergeFunctionDeclarations } from "../../lib/tool-registry";
+import {
+  Behavior,
+  FunctionDeclaration,
+  LiveConnectConfig,
+  Tool,
+} from "@google/genai";
 
 type FunctionDeclarationsTool = Tool & {
   functionDeclarations: FunctionDeclaration[];
@@ -18,18 +31,24 @@ type FunctionDeclarationsTool = Tool & {
 export default function SettingsDialog() {
   const [open, setOpen] = useState(false);
   const { config, setConfig, connected } = useLiveAPIContext();
+  const registeredDeclarations = useToolDeclarations();
+  // the config as it will be sent, including declarations from the tool registry
+  const toolsConfig = useMemo(
+    () => mergeFunctionDeclarations(config, registeredDeclarations),
+    [config, registeredDeclarations]
+  );
   const functionDeclarations: FunctionDeclaration[] = useMemo(() => {
-    if (!Array.isArray(config.tools)) {
+    if (!Array.isArray(toolsConfig.tools)) {
       return [];
     }
-    return (config.tools as Tool[])
+    return (toolsConfig.tools as Tool[])
       .filter((t: Tool): t is FunctionDeclarationsTool =>
         Array.isArray((t as any).functionDeclarations)
       )
       .map((t) => t.functionDeclarations)
       .filter((fc) => !!fc)
       .flat();
-  }, [config]);
+  }, [toolsConfig]);
 
   // system instructions can come in many types
   const systemInstruction = useMemo(() => {
@@ -66,12 +85,12 @@ export default function SettingsDialog() {
     [config, setConfig]
   );
 
-  const updateFunctionDescription = useCallback(
-    (editedFdName: string, newDescription: string) => {
+  const updateFunctionDeclaration = useCallback(
+    (editedFdName: string, changes: Partial<FunctionDeclaration>) => {
       const newConfig: LiveConnectConfig = {
         ...config,
         tools:
-          config.tools?.map((tool) => {
+          toolsConfig.tools?.map((tool) => {
             const fdTool = tool as FunctionDeclarationsTool;
             if (!Array.isArray(fdTool.functionDeclarations)) {
               return tool;
@@ -79,16 +98,14 @@ export default function SettingsDialog() {
             return {
               ...tool,
               functionDeclarations: fdTool.functionDeclarations.map((fd) =>
-                fd.name === editedFdName
-                  ? { ...fd, description: newDescription }
-                  : fd
+                fd.name === editedFdName ? { ...fd, ...changes } : fd
               ),
             };
           }) || [],
       };
       setConfig(newConfig);
     },
-    [config, setConfig]
+    [config, toolsConfig, setConfig]
   );
 
   return (
@@ -109,10 +126,16 @@ export default function SettingsDialog() {
               </p>
             </div>
           )}
+          <ConnectionProfileSettings />
+          <ModelSelector />
           <div className="mode-selectors">
             <ResponseModalitySelector />
             <VoiceSelector />
+            <TranscriptionToggles />
+            <NativeAudioToggles />
           </div>
+          <RealtimeInputSettings />
+          <ContextCompressionSettings />
 
           <h3>System Instructions</h3>
           <textarea
@@ -139,9 +162,28 @@ export default function SettingsDialog() {
                     type="text"
                     defaultValue={fd.description}
                     onBlur={(e) =>
-                      updateFunctionDescription(fd.name!, e.target.value)
+                      updateFunctionDeclaration(fd.name!, {
+                        description: e.target.value,
+                      })
                     }
                   />
+                  <label
+                    className="fd-row-behavior"
+                    title="NON_BLOCKING: the model keeps talking while the function runs"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={fd.behavior === Behavior.NON_BLOCKING}
+                      onChange={(e) =>
+                        updateFunctionDeclaration(fd.name!, {
+                          behavior: e.target.checked
+                            ? Behavior.NON_BLOCKING
+                            : undefined,
+                        })
+                      }
+                    />
+                    async
+                  </label>
                 </div>
               ))}
             </div>
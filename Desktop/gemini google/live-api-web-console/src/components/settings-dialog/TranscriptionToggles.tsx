@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { findLiveModel } from "../../lib/model-registry";
+
+type TranscriptionKey = "inputAudioTranscription" | "outputAudioTranscription";
+
+const toggles: { key: TranscriptionKey; label: string }[] = [
+  { key: "inputAudioTranscription", label: "Transcribe my audio" },
+  { key: "outputAudioTranscription", label: "Transcribe model audio" },
+];
+
+export default function TranscriptionToggles() {
+  const { config, setConfig, model } = useLiveAPIContext();
+  const supported = findLiveModel(model)?.transcription ?? true;
+
+  const toggle = useCallback(
+    (key: TranscriptionKey, enabled: boolean) => {
+      const { [key]: _, ...rest } = config;
+      setConfig(enabled ? { ...rest, [key]: {} } : rest);
+    },
+    [config, setConfig]
+  );
+
+  return (
+    <div className="select-group transcription-toggles">
+      <label>Transcription</label>
+      {toggles.map(({ key, label }) => (
+        <label className="toggle" key={key}>
+          <input
+            type="checkbox"
+            disabled={!supported}
+            checked={!!config[key]}
+            onChange={(e) => toggle(key, e.target.checked)}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
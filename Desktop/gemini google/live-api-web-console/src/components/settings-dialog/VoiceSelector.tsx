@@ -1,17 +1,15 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Select from "react-select";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-
-const voiceOptions = [
-  { value: "Puck", label: "Puck" },
-  { value: "Charon", label: "Charon" },
-  { value: "Kore", label: "Kore" },
-  { value: "Fenrir", label: "Fenrir" },
-  { value: "Aoede", label: "Aoede" },
-];
+import { voicesFor } from "../../lib/model-registry";
 
 export default function VoiceSelector() {
-  const { config, setConfig } = useLiveAPIContext();
+  const { config, setConfig, model } = useLiveAPIContext();
+  // the voices depend on the model, see the model registry
+  const voiceOptions = useMemo(
+    () => voicesFor(model).map((voice) => ({ value: voice, label: voice })),
+    [model]
+  );
 
   useEffect(() => {
     const voiceName =
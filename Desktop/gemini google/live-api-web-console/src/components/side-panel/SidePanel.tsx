@@ -15,13 +15,24 @@
  */
 
 import "./react-select.scss";
+import { Transcription } from "@google/genai";
 import cn from "classnames";
 import { useEffect, useRef, useState } from "react";
 import { RiSidebarFoldLine, RiSidebarUnfoldLine } from "react-icons/ri";
 import Select from "react-select";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import {
+  ConnectionState,
+  describeConnectionState,
+} from "../../lib/connection-state";
 import { useLoggerStore } from "../../lib/store-logger";
+import { useTranscriptStore } from "../../lib/store-transcript";
 import Logger, { LoggerFilterType } from "../logger/Logger";
+import Transcript from "../transcript/Transcript";
+import ContextWindowIndicator from "../usage-meter/ContextWindowIndicator";
+import UsageMeter from "../usage-meter/UsageMeter";
+import LatencyPanel from "../usage-meter/LatencyPanel";
+import RecorderPanel from "../session-recorder/RecorderPanel";
 import "./side-panel.scss";
 
 const filterOptions = [
@@ -30,12 +41,24 @@ const filterOptions = [
   { value: "none", label: "All" },
 ];
 
+const statusIcons: Record<ConnectionState["status"], string> = {
+  idle: "⏸️",
+  connecting: "⏳",
+  "awaiting-setup": "⏳",
+  connected: "🔵",
+  reconnecting: "🔄",
+  closing: "⏳",
+  failed: "⚠️",
+};
+
 export default function SidePanel() {
-  const { connected, client } = useLiveAPIContext();
+  const { connected, connectionState, client } = useLiveAPIContext();
   const [open, setOpen] = useState(true);
   const loggerRef = useRef<HTMLDivElement>(null);
   const loggerLastHeightRef = useRef<number>(-1);
   const { log, logs } = useLoggerStore();
+  const { append, endTurn, clearTranscript, turns } = useTranscriptStore();
+  const [tab, setTab] = useState<"logs" | "transcript">("logs");
 
   const [textInput, setTextInput] = useState("");
   const [selectedOption, setSelectedOption] = useState<{
@@ -54,7 +77,7 @@ export default function SidePanel() {
         loggerLastHeightRef.current = scrollHeight;
       }
     }
-  }, [logs]);
+  }, [logs, turns, tab]);
 
   // listen for log events and store them
   useEffect(() => {
@@ -64,6 +87,28 @@ export default function SidePanel() {
     };
   }, [client, log]);
 
+  // assemble transcriptions into turns, whichever tab is showing
+  useEffect(() => {
+    const onInput = ({ text, finished }: Transcription) =>
+      append("user", text || "", finished);
+    const onOutput = ({ text, finished }: Transcription) =>
+      append("model", text || "", finished);
+    const onTurnComplete = () => endTurn();
+    const onInterrupted = () => endTurn(true);
+    client
+      .on("inputtranscription", onInput)
+      .on("outputtranscription", onOutput)
+      .on("turncomplete", onTurnComplete)
+      .on("interrupted", onInterrupted);
+    return () => {
+      client
+        .off("inputtranscription", onInput)
+        .off("outputtranscription", onOutput)
+        .off("turncomplete", onTurnComplete)
+        .off("interrupted", onInterrupted);
+    };
+  }, [client, append, endTurn]);
+
   const handleSubmit = () => {
     client.send([{ text: textInput }]);
 
@@ -77,6 +122,15 @@ export default function SidePanel() {
     <div className={`side-panel ${open ? "open" : ""}`}>
       <header className="top">
         <h2>Console</h2>
+        {open && (
+          <a
+            className="compare-link"
+            href="#compare"
+            title="Compare models and configs side by side"
+          >
+            <span className="material-symbols-outlined">splitscreen</span>
+          </a>
+        )}
         {open ? (
           <button className="opener" onClick={() => setOpen(false)}>
             <RiSidebarFoldLine color="#b4b8bb" />
@@ -115,17 +169,62 @@ export default function SidePanel() {
             setSelectedOption(e);
           }}
         />
-        <div className={cn("streaming-indicator", { connected })}>
-          {connected
-            ? `🔵${open ? " Streaming" : ""}`
-            : `⏸️${open ? " Paused" : ""}`}
+        <div
+          className={cn("streaming-indicator", {
+            connected,
+            failed: connectionState.status === "failed",
+          })}
+          title={
+            connectionState.status === "failed"
+              ? connectionState.reason
+              : undefined
+          }
+        >
+          {statusIcons[connectionState.status]}
+          {open &&
+            ` ${connectionState.status === "idle" ? "Paused" : describeConnectionState(connectionState)}`}
         </div>
       </section>
+      <nav className="side-panel-tabs">
+        <button
+          className={cn({ active: tab === "logs" })}
+          onClick={() => setTab("logs")}
+        >
+          Logs
+        </button>
+        <button
+          className={cn({ active: tab === "transcript" })}
+          onClick={() => setTab("transcript")}
+        >
+          Transcript
+        </button>
+        {tab === "transcript" && turns.length > 0 && (
+          <button
+            className="clear-transcript"
+            onClick={clearTranscript}
+            title="Clear the transcript"
+          >
+            <span className="material-symbols-outlined">delete</span>
+          </button>
+        )}
+      </nav>
       <div className="side-panel-container" ref={loggerRef}>
-        <Logger
-          filter={(selectedOption?.value as LoggerFilterType) || "none"}
-        />
+        {tab === "logs" ? (
+          <Logger
+            filter={(selectedOption?.value as LoggerFilterType) || "none"}
+          />
+        ) : (
+          <Transcript />
+        )}
       </div>
+      {open && (
+        <>
+          <ContextWindowIndicator />
+          <UsageMeter />
+          <LatencyPanel client={client} />
+          <RecorderPanel />
+        </>
+      )}
       <div className={cn("input-container", { disabled: !connected })}>
         <div className="input-content">
           <textarea
@@ -0,0 +1,66 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./transcript.scss";
+
+import cn from "classnames";
+import { memo } from "react";
+import {
+  TranscriptTurn,
+  useTranscriptStore,
+} from "../../lib/store-transcript";
+
+const formatTime = (d: Date) => d.toLocaleTimeString().slice(0, -3);
+
+const TranscriptBubble = memo(({ turn }: { turn: TranscriptTurn }) => (
+  <li
+    className={cn("transcript-turn", turn.role, {
+      partial: !turn.finished,
+      interrupted: turn.interrupted,
+    })}
+  >
+    <span className="transcript-meta">
+      {turn.role === "user" ? "You" : "Model"} · {formatTime(turn.startedAt)}
+      {turn.interrupted && " · interrupted"}
+    </span>
+    <p className="transcript-bubble">{turn.text}</p>
+  </li>
+));
+
+export default function Transcript() {
+  const { turns } = useTranscriptStore();
+
+  if (!turns.length) {
+    return (
+      <div className="transcript empty">
+        <p>
+          Nothing transcribed yet. Enable input or output transcription in the
+          settings and start talking.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="transcript">
+      <ul className="transcript-list">
+        {turns.map((turn) => (
+          <TranscriptBubble turn={turn} key={turn.id} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import cn from "classnames";
+import { useEffect, useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { contextWindowStatus } from "../../lib/context-window";
+import { findLiveModel } from "../../lib/model-registry";
+import { TokenUsage } from "../../lib/usage-meter";
+
+const formatTokens = (n: number) =>
+  n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`;
+
+/**
+ * how full the context is, against the compression trigger when compression
+ * is configured, so long sessions don't run out of context unnoticed
+ */
+export default function ContextWindowIndicator() {
+  const { client, config, model } = useLiveAPIContext();
+  const [usage, setUsage] = useState<TokenUsage>(
+    () => client.usageMeter.snapshot.turn
+  );
+  const [compressedAt, setCompressedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    const onUsage = () => setUsage(client.usageMeter.snapshot.turn);
+    const onCompressed = () => setCompressedAt(new Date());
+    client.usageMeter.on("change", onUsage);
+    client.on("contextcompressed", onCompressed);
+    return () => {
+      client.usageMeter.off("change", onUsage);
+      client.off("contextcompressed", onCompressed);
+    };
+  }, [client]);
+
+  const { used, limit, ratio, compression } = contextWindowStatus(
+    usage,
+    config,
+    findLiveModel(model)?.contextWindow
+  );
+
+  return (
+    <div
+      className={cn("context-window", {
+        warning: ratio >= 0.75,
+        critical: ratio >= 0.9,
+      })}
+      title={
+        compression
+          ? "Compression runs when the context reaches the trigger"
+          : "Compression is off, the session ends when the context is full"
+      }
+    >
+      <span>
+        context {formatTokens(used)} / {formatTokens(limit)}
+      </span>
+      <span className="context-window-bar">
+        <span style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+      </span>
+      <span className="context-window-mode">
+        {compression ? "sliding window" : "no compression"}
+        {compressedAt &&
+          ` · compressed ${compressedAt.toLocaleTimeString().slice(0, -3)}`}
+      </span>
+    </div>
+  );
+}
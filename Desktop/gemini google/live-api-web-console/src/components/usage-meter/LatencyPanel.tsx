@@ -0,0 +1,93 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./usage-meter.scss";
+
+import { useEffect, useState } from "react";
+import { GenAILiveClient } from "../../lib/genai-live-client";
+import {
+  LatencyMetric,
+  latencyMetrics,
+  LatencySnapshot,
+} from "../../lib/latency-metrics";
+
+const metricLabels: Record<LatencyMetric, string> = {
+  setup: "connect → setup",
+  speechToAudio: "speech end → audio",
+  audioToPlayback: "audio → playback",
+  toolRoundTrip: "tool call → response",
+};
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms}ms`;
+
+/**
+ * latency percentiles of `client`'s session, see `LatencyMetric`
+ */
+export default function LatencyPanel({ client }: { client: GenAILiveClient }) {
+  const [latency, setLatency] = useState<LatencySnapshot>(
+    () => client.latency.snapshot
+  );
+
+  useEffect(() => {
+    setLatency(client.latency.snapshot);
+    client.latency.on("change", setLatency);
+    return () => {
+      client.latency.off("change", setLatency);
+    };
+  }, [client]);
+
+  const speech = latency.speechToAudio;
+
+  return (
+    <details className="latency-panel">
+      <summary>
+        <span className="material-symbols-outlined">timer</span>
+        <span>
+          {speech ? `response p50 ${formatMs(speech.p50)}` : "latency"}
+        </span>
+        {speech && (
+          <span className="latency-last">last {formatMs(speech.last)}</span>
+        )}
+      </summary>
+      <table>
+        <thead>
+          <tr>
+            <th />
+            <th>n</th>
+            <th>p50</th>
+            <th>p90</th>
+            <th>p99</th>
+          </tr>
+        </thead>
+        <tbody>
+          {latencyMetrics.map((metric) => {
+            const stats = latency[metric];
+            return (
+              <tr key={metric}>
+                <th>{metricLabels[metric]}</th>
+                <td>{stats?.count ?? 0}</td>
+                <td>{stats ? formatMs(stats.p50) : "–"}</td>
+                <td>{stats ? formatMs(stats.p90) : "–"}</td>
+                <td>{stats ? formatMs(stats.p99) : "–"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </details>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./usage-meter.scss";
+
+import { useEffect, useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { ModalityCounts, UsageSnapshot } from "../../lib/usage-meter";
+
+const formatTokens = (n: number) =>
+  n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`;
+
+const formatCost = (cost: number, currency = "USD") =>
+  new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 4,
+  }).format(cost);
+
+const ModalityRow = ({
+  label,
+  counts,
+}: {
+  label: string;
+  counts: ModalityCounts;
+}) => (
+  <tr>
+    <th>{label}</th>
+    <td>{formatTokens(counts.text)}</td>
+    <td>{formatTokens(counts.audio)}</td>
+    <td>{formatTokens(counts.video)}</td>
+  </tr>
+);
+
+/**
+ * running token count (and cost, given a price table) for the session
+ */
+export default function UsageMeter() {
+  const { client } = useLiveAPIContext();
+  const [usage, setUsage] = useState<UsageSnapshot>(
+    () => client.usageMeter.snapshot
+  );
+
+  useEffect(() => {
+    setUsage(client.usageMeter.snapshot);
+    client.usageMeter.on("change", setUsage);
+    return () => {
+      client.usageMeter.off("change", setUsage);
+    };
+  }, [client]);
+
+  const { session, turn, turns, cost, currency } = usage;
+
+  return (
+    <details className="usage-meter">
+      <summary>
+        <span className="material-symbols-outlined">toll</span>
+        <span>{formatTokens(session.total)} tokens</span>
+        <span className="usage-turn">
+          last turn {formatTokens(turn.total)}
+        </span>
+        {cost !== undefined && (
+          <span className="usage-cost">{formatCost(cost, currency)}</span>
+        )}
+      </summary>
+      <table>
+        <thead>
+          <tr>
+            <th />
+            <th>text</th>
+            <th>audio</th>
+            <th>video</th>
+          </tr>
+        </thead>
+        <tbody>
+          <ModalityRow label="prompt" counts={session.input} />
+          <ModalityRow label="response" counts={session.output} />
+        </tbody>
+      </table>
+      <p className="usage-totals">
+        {turns} turn(s) · prompt {formatTokens(session.prompt)} · response{" "}
+        {formatTokens(session.response)}
+        {session.cached > 0 && ` · cached ${formatTokens(session.cached)}`}
+        {session.thoughts > 0 && ` · thoughts ${formatTokens(session.thoughts)}`}
+      </p>
+    </details>
+  );
+}
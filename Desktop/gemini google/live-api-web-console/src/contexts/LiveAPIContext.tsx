@@ -1,7 +1,7 @@
 /**
  * Enhanced context provider with:
  * - Session persistence
- * - Reconnection state management
+ * - Connection state from the client's state machine
  * - Conversation history caching
  */
 
@@ -28,7 +28,7 @@ export const LiveAPIProvider: FC<LiveAPIProviderProps> = ({
   children,
 }) => {
   const liveAPI = useLiveAPI(options);
-  const [isReconnecting, setIsReconnecting] = useState(false);
+  const isReconnecting = liveAPI.connectionState.status === "reconnecting";
   const [conversationHistory, setConversationHistory] = useState<Content[]>([]);
 
   // Load saved history on mount
@@ -43,20 +43,6 @@ export const LiveAPIProvider: FC<LiveAPIProviderProps> = ({
     }
   }, []);
 
-  // Handle reconnection states - using supported events
-  useEffect(() => {
-    const handleOpen = () => setIsReconnecting(false);
-    const handleClose = () => setIsReconnecting(true);
-
-    liveAPI.client.on('open', handleOpen);
-    liveAPI.client.on('close', handleClose);
-
-    return () => {
-      liveAPI.client.off('open', handleOpen);
-      liveAPI.client.off('close', handleClose);
-    };
-  }, [liveAPI.client]);
-
   // Persist history changes with useCallback for stability
   const addToHistory = useCallback((content: Content) => {
     setConversationHistory(prev => {
@@ -18,9 +18,13 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { GenAILiveClient } from "../lib/genai-live-client";
 import { Content, LiveClientOptions } from "../types/types";
 import { AudioStreamer } from "../lib/audio-streamer";
+import { AudioFormat } from "../lib/audio-format";
 import { audioContext } from "../lib/utils";
 import VolMeterWorket from "../lib/worklets/vol-meter";
 import { LiveConnectConfig } from "@google/genai";
+import { ConnectionState } from "../lib/connection-state";
+import { DEFAULT_LIVE_MODEL } from "../lib/model-registry";
+import { browserEnvironment } from "../lib/live-environment";
 
 export type UseLiveAPIResults = {
   client: GenAILiveClient;
@@ -29,6 +33,7 @@ export type UseLiveAPIResults = {
   model: string;
   setModel: (model: string) => void;
   connected: boolean;
+  connectionState: ConnectionState;
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   volume: number;
@@ -37,39 +42,40 @@ export type UseLiveAPIResults = {
 };
 
 export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
-  const client = useMemo(() => new GenAILiveClient(options), [options]);
+  const client = useMemo(
+    () => new GenAILiveClient({ environment: browserEnvironment, ...options }),
+    [options]
+  );
+  // the audio streamer outlives clients, it reports to the current one
+  const clientRef = useRef(client);
+  clientRef.current = client;
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
-  const audioBufferRef = useRef<ArrayBuffer[]>([]);
+  const audioBufferRef = useRef<[ArrayBuffer, AudioFormat][]>([]);
   
-  const [model, setModel] = useState<string>("models/gemini-2.0-flash-exp");
+  const [model, setModel] = useState<string>(DEFAULT_LIVE_MODEL);
   const [config, setConfig] = useState<LiveConnectConfig>({});
-  const [connected, setConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    client.state
+  );
+  const connected = connectionState.status === "connected";
   const [volume, setVolume] = useState(0);
   const [chatHistory, setChatHistory] = useState<Content[]>([]);
 
-  // Handle session resumption on disconnect
+  // the options changed, e.g. another connection profile, and replaced the client
   useEffect(() => {
-    const handleDisconnect = () => {
-      console.warn("🔌 Disconnected. Attempting reconnect...");
-      const handle = localStorage.getItem("gemini_session_handle");
-      
-      if (handle) {
-        client.connect(model, {
-          ...config,
-          sessionResumption: { handle },
-        })
-        .then(() => console.log("✅ Reconnected successfully"))
-        .catch((err) => {
-          console.error("❌ Failed to reconnect:", err instanceof Error ? err.message : err);
-        });
-      }
+    return () => {
+      client.disconnect();
     };
+  }, [client]);
 
-    client.on("close", handleDisconnect);
+  // the client owns reconnection, we only mirror its state
+  useEffect(() => {
+    setConnectionState(client.state);
+    client.on("statechange", setConnectionState);
     return () => {
-      client.off("close", handleDisconnect);
+      client.off("statechange", setConnectionState);
     };
-  }, [client, model, config]);
+  }, [client]);
 
   // Load chat history from localStorage
   useEffect(() => {
@@ -96,6 +102,8 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
     if (!audioStreamerRef.current) {
       audioContext({ id: "audio-out" }).then((audioCtx: AudioContext) => {
         audioStreamerRef.current = new AudioStreamer(audioCtx);
+        audioStreamerRef.current.onPlaybackStart = (latency) =>
+          clientRef.current.latency.record("audioToPlayback", latency);
         audioStreamerRef.current
           .addWorklet("vumeter-out", VolMeterWorket, (ev: MessageEvent) => {
             setVolume(ev.data.volume);
@@ -112,8 +120,8 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
   // Flush audio buffer when connected
   const flushAudioBuffer = useCallback(() => {
     if (audioStreamerRef.current) {
-      audioBufferRef.current.forEach(buf => {
-        audioStreamerRef.current?.addPCM16(new Uint8Array(buf));
+      audioBufferRef.current.forEach(([buf, format]) => {
+        audioStreamerRef.current?.addPCM16(new Uint8Array(buf), format);
       });
       audioBufferRef.current = [];
     }
@@ -121,15 +129,10 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
 
   // Setup client event listeners
   useEffect(() => {
-    const onOpen = () => {
-      setConnected(true);
+    const onSetupComplete = () => {
       flushAudioBuffer();
     };
 
-    const onClose = () => {
-      setConnected(false);
-    };
-
     const onError = (error: Error) => {
       console.error("Client error:", error);
     };
@@ -138,24 +141,22 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
       audioStreamerRef.current?.stop();
     };
 
-    const onAudio = (data: ArrayBuffer) => {
+    const onAudio = (data: ArrayBuffer, format: AudioFormat) => {
       if (!connected) {
-        audioBufferRef.current.push(data);
+        audioBufferRef.current.push([data, format]);
       } else {
-        audioStreamerRef.current?.addPCM16(new Uint8Array(data));
+        audioStreamerRef.current?.addPCM16(new Uint8Array(data), format);
       }
     };
 
     client
-      .on("open", onOpen)
-      .on("close", onClose)
+      .on("setupcomplete", onSetupComplete)
       .on("interrupted", stopAudioStreamer)
       .on("audio", onAudio);
 
     return () => {
       client
-        .off("open", onOpen)
-        .off("close", onClose)
+        .off("setupcomplete", onSetupComplete)
         .off("interrupted", stopAudioStreamer)
         .off("audio", onAudio);
     };
@@ -169,15 +170,15 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
       await client.disconnect();
       await client.connect(model, config);
     } catch (err) {
+      // the client is left in the failed state with the reason, which the
+      // control tray shows, e.g. a profile without credentials
       console.error("Connection error:", err);
-      throw err;
     }
   }, [client, config, model]);
 
   const disconnect = useCallback(async () => {
     try {
       await client.disconnect();
-      setConnected(false);
     } catch (err) {
       console.error("Disconnection error:", err);
       throw err;
@@ -191,6 +192,7 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
     model,
     setModel,
     connected,
+    connectionState,
     connect,
     disconnect,
     volume,
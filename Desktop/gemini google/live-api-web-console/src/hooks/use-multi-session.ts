@@ -0,0 +1,114 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { LiveClientOptions } from "../types/types";
+import { MultiSessionManager, SessionSlot } from "../lib/multi-session";
+import { GenAILiveClient } from "../lib/genai-live-client";
+import { ConnectionState } from "../lib/connection-state";
+import { AudioStreamer } from "../lib/audio-streamer";
+import { AudioFormat } from "../lib/audio-format";
+import { audioContext } from "../lib/utils";
+import { browserEnvironment } from "../lib/live-environment";
+
+export type UseMultiSessionResults = {
+  manager: MultiSessionManager;
+  slots: SessionSlot[];
+};
+
+export function useMultiSession(
+  options: LiveClientOptions,
+  initial: Array<Partial<SessionSlot> & { model: string }> = []
+): UseMultiSessionResults {
+  const manager = useMemo(
+    () => new MultiSessionManager({ environment: browserEnvironment, ...options }),
+    [options]
+  );
+  const [slots, setSlots] = useState<SessionSlot[]>(manager.slots);
+  // the initial sessions are only added once per manager
+  const initialRef = useRef(initial);
+
+  useEffect(() => {
+    manager.on("change", setSlots);
+    if (!manager.slots.length) {
+      initialRef.current.forEach((settings) => manager.add(settings));
+    }
+    return () => {
+      manager.off("change", setSlots);
+    };
+  }, [manager]);
+
+  useEffect(() => () => manager.dispose(), [manager]);
+
+  return { manager, slots };
+}
+
+/**
+ * mirrors the connection state of one client
+ */
+export function useConnectionState(client: GenAILiveClient): ConnectionState {
+  const [state, setState] = useState<ConnectionState>(client.state);
+  useEffect(() => {
+    setState(client.state);
+    client.on("statechange", setState);
+    return () => {
+      client.off("statechange", setState);
+    };
+  }, [client]);
+  return state;
+}
+
+/**
+ * Plays one client's audio through its own streamer on the shared output
+ * context, so sessions can be muted one at a time.
+ */
+export function useSessionAudio(client: GenAILiveClient, muted: boolean) {
+  const streamerRef = useRef<AudioStreamer | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    audioContext({ id: "audio-out" })
+      .then((audioCtx: AudioContext) => {
+        if (!cancelled) {
+          streamerRef.current = new AudioStreamer(audioCtx);
+          streamerRef.current.onPlaybackStart = (latency) =>
+            client.latency.record("audioToPlayback", latency);
+        }
+      })
+      .catch((err) => console.error("Failed to initialize audio context:", err));
+    return () => {
+      cancelled = true;
+      streamerRef.current?.stop();
+      streamerRef.current = null;
+    };
+  }, [client]);
+
+  useEffect(() => {
+    if (muted) {
+      streamerRef.current?.stop();
+    }
+    const onAudio = (data: ArrayBuffer, format: AudioFormat) => {
+      if (!muted) {
+        streamerRef.current?.addPCM16(new Uint8Array(data), format);
+      }
+    };
+    const onInterrupted = () => streamerRef.current?.stop();
+    client.on("audio", onAudio).on("interrupted", onInterrupted);
+    return () => {
+      client.off("audio", onAudio).off("interrupted", onInterrupted);
+    };
+  }, [client, muted]);
+}
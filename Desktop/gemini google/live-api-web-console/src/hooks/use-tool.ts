@@ -0,0 +1,63 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { FunctionDeclaration } from "@google/genai";
+import { useLiveAPIContext } from "../contexts/LiveAPIContext";
+import { ToolArgs, ToolHandler } from "../lib/tool-registry";
+
+/**
+ * registers `handler` for `declaration` on the client's tool registry
+ * for as long as the calling component is mounted
+ * keep `declaration` referentially stable, e.g. a module level constant
+ */
+export function useTool<Args = ToolArgs>(
+  declaration: FunctionDeclaration,
+  handler: ToolHandler<Args>,
+) {
+  const { client } = useLiveAPIContext();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () =>
+      client.tools.register<Args>(declaration, (args, context) =>
+        handlerRef.current(args, context),
+      ),
+    [client, declaration],
+  );
+}
+
+/**
+ * the declarations currently registered on the client's tool registry
+ */
+export function useToolDeclarations(): FunctionDeclaration[] {
+  const { client } = useLiveAPIContext();
+  const [declarations, setDeclarations] = useState(
+    () => client.tools.declarations,
+  );
+
+  useEffect(() => {
+    const onChange = () => setDeclarations(client.tools.declarations);
+    onChange();
+    client.tools.on("change", onChange);
+    return () => {
+      client.tools.off("change", onChange);
+    };
+  }, [client]);
+
+  return declarations;
+}
@@ -0,0 +1,63 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RefObject, useEffect, useRef } from "react";
+import { RealtimeChunk } from "../lib/outbound-queue";
+
+const FRAMES_PER_SECOND = 0.5;
+const FRAME_SCALE = 0.25;
+
+/**
+ * Grabs a downscaled JPEG from `videoRef` every couple of seconds while
+ * `enabled` and a stream is playing, and hands it to `onFrame`.
+ */
+export function useVideoFrames(
+  videoRef: RefObject<HTMLVideoElement>,
+  stream: MediaStream | null,
+  enabled: boolean,
+  onFrame: (frame: RealtimeChunk) => void
+) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !stream) return;
+
+    let timeoutId = -1;
+    const canvas = (canvasRef.current ||= document.createElement("canvas"));
+    const video = videoRef.current;
+
+    function sendVideoFrame() {
+      if (!video) return;
+
+      const ctx = canvas.getContext("2d")!;
+      canvas.width = video.videoWidth * FRAME_SCALE;
+      canvas.height = video.videoHeight * FRAME_SCALE;
+
+      if (canvas.width + canvas.height > 0) {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const base64 = canvas.toDataURL("image/jpeg", 1.0);
+        const data = base64.slice(base64.indexOf(",") + 1);
+        onFrame({ mimeType: "image/jpeg", data });
+      }
+
+      timeoutId = window.setTimeout(sendVideoFrame, 1000 / FRAMES_PER_SECOND);
+    }
+    requestAnimationFrame(sendVideoFrame);
+    return () => {
+      clearTimeout(timeoutId);
+    };
+  }, [enabled, stream, onFrame, videoRef]);
+}
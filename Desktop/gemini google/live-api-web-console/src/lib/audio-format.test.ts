@@ -0,0 +1,126 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  convertPCM16,
+  decodePCM16,
+  DEFAULT_INPUT_FORMAT,
+  DEFAULT_OUTPUT_FORMAT,
+  encodePCM16,
+  isSameFormat,
+  parseAudioMimeType,
+} from "./audio-format";
+
+const bytes = (pcm: Int16Array) =>
+  new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+
+describe("parseAudioMimeType", () => {
+  test.each([
+    ["audio/pcm;rate=16000", { sampleRate: 16000, channels: 1 }],
+    ["audio/L16;rate=48000;channels=2", { sampleRate: 48000, channels: 2 }],
+    ["audio/pcm; RATE=22050", { sampleRate: 22050, channels: 1 }],
+    ["audio/pcm", DEFAULT_OUTPUT_FORMAT],
+    ["audio/pcm;rate=abc;channels=0", DEFAULT_OUTPUT_FORMAT],
+    [undefined, DEFAULT_OUTPUT_FORMAT],
+  ])("%s", (mimeType, expected) => {
+    expect(parseAudioMimeType(mimeType)).toEqual(expected);
+  });
+
+  test("takes what the mime type leaves out from the fallback", () => {
+    const parse = (mimeType: string) =>
+      parseAudioMimeType(mimeType, DEFAULT_INPUT_FORMAT);
+    expect(parse("audio/pcm;channels=2")).toEqual({
+      sampleRate: 16000,
+      channels: 2,
+    });
+    // "rate" is only matched as a parameter
+    expect(parse("audio/pcm;samplerate=8000")).toEqual(DEFAULT_INPUT_FORMAT);
+  });
+
+  test("isSameFormat compares rate and channels", () => {
+    const output = { sampleRate: 24000, channels: 1 };
+    expect(isSameFormat(DEFAULT_OUTPUT_FORMAT, output)).toBe(true);
+    expect(isSameFormat(DEFAULT_OUTPUT_FORMAT, DEFAULT_INPUT_FORMAT)).toBe(false);
+  });
+});
+
+describe("decodePCM16 and encodePCM16", () => {
+  test("round-trip interleaved stereo", () => {
+    const pcm = Int16Array.from([0, -32768, 16384, 32767, -1, 1]);
+    const [left, right] = decodePCM16(bytes(pcm), 2);
+    expect(Array.from(left)).toEqual([0, 0.5, -1 / 32768]);
+    expect(Array.from(right)).toEqual([-1, 32767 / 32768, 1 / 32768]);
+    expect(encodePCM16([left, right])).toEqual(pcm);
+  });
+
+  test("decode from an offset and ignore a trailing partial frame", () => {
+    const data = Uint8Array.from([0xff, 0x00, 0x40, 0x00, 0xc0, 0x7f]);
+    const [samples] = decodePCM16(data.subarray(1));
+    expect(Array.from(samples)).toEqual([0.5, -0.5]);
+  });
+
+  test("encode clamps samples outside -1 to 1", () => {
+    expect(Array.from(encodePCM16([Float32Array.from([2, -2, 1])]))).toEqual([
+      32767, -32768, 32767,
+    ]);
+    expect(encodePCM16([])).toHaveLength(0);
+  });
+});
+
+describe("convertPCM16", () => {
+  const tone = Int16Array.from({ length: 480 }, (_, i) =>
+    Math.round(Math.sin((2 * Math.PI * i) / 48) * 16000)
+  );
+
+  test("is a no-op between equal formats", () => {
+    const format = DEFAULT_OUTPUT_FORMAT;
+    expect(convertPCM16(bytes(tone), format, format)).toEqual(tone);
+  });
+
+  test("repeats a mono channel and drops extra channels", () => {
+    const stereo = convertPCM16(bytes(tone), DEFAULT_OUTPUT_FORMAT, {
+      sampleRate: 24000,
+      channels: 2,
+    });
+    expect(stereo).toHaveLength(tone.length * 2);
+    expect(stereo.filter((_, i) => i % 2 === 0)).toEqual(tone);
+    expect(stereo.filter((_, i) => i % 2 === 1)).toEqual(tone);
+
+    const mono = convertPCM16(
+      bytes(stereo),
+      { sampleRate: 24000, channels: 2 },
+      DEFAULT_OUTPUT_FORMAT
+    );
+    expect(mono).toEqual(tone);
+  });
+
+  test("changes the rate and keeps the length in time", () => {
+    const upsampled = convertPCM16(bytes(tone), DEFAULT_OUTPUT_FORMAT, {
+      sampleRate: 48000,
+      channels: 1,
+    });
+    expect(upsampled).toHaveLength(tone.length * 2);
+    // every other sample of the upsampled tone is an original sample
+    expect(upsampled.filter((_, i) => i % 2 === 0)).toEqual(tone);
+
+    const downsampled = convertPCM16(
+      bytes(tone),
+      DEFAULT_OUTPUT_FORMAT,
+      DEFAULT_INPUT_FORMAT
+    );
+    expect(downsampled).toHaveLength((tone.length * 2) / 3);
+  });
+});
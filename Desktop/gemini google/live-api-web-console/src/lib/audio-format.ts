@@ -0,0 +1,108 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { resample } from "./wav";
+
+/**
+ * the layout of raw PCM audio, as announced by a part's mime type
+ * (`audio/pcm;rate=24000`), samples are little-endian 16 bit and interleaved
+ */
+export type AudioFormat = {
+  sampleRate: number;
+  channels: number;
+};
+
+/** what the Live API speaks when the mime type doesn't say otherwise */
+export const DEFAULT_OUTPUT_FORMAT: AudioFormat = {
+  sampleRate: 24000,
+  channels: 1,
+};
+
+/** what the console records and sends */
+export const DEFAULT_INPUT_FORMAT: AudioFormat = {
+  sampleRate: 16000,
+  channels: 1,
+};
+
+/**
+ * reads `rate` and `channels` from a PCM mime type such as
+ * `audio/pcm;rate=24000` or `audio/L16;rate=16000;channels=2`, taking the
+ * rest from `fallback`
+ */
+export function parseAudioMimeType(
+  mimeType: string | undefined,
+  fallback: AudioFormat = DEFAULT_OUTPUT_FORMAT,
+): AudioFormat {
+  const param = (name: string) =>
+    Number(new RegExp(`[;\\s]${name}=(\\d+)`, "i").exec(mimeType || "")?.[1]) ||
+    undefined;
+  return {
+    sampleRate: param("rate") ?? fallback.sampleRate,
+    channels: param("channels") ?? fallback.channels,
+  };
+}
+
+export const isSameFormat = (a: AudioFormat, b: AudioFormat): boolean =>
+  a.sampleRate === b.sampleRate && a.channels === b.channels;
+
+/**
+ * interleaved PCM16 bytes to one array of samples between -1 and 1 per channel
+ */
+export function decodePCM16(data: Uint8Array, channels = 1): Float32Array[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frames = Math.floor(data.byteLength / 2 / channels);
+  const decoded = Array.from({ length: channels }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      decoded[channel][frame] =
+        view.getInt16((frame * channels + channel) * 2, true) / 32768;
+    }
+  }
+  return decoded;
+}
+
+/**
+ * the inverse of `decodePCM16`, samples are clamped to the PCM16 range
+ */
+export function encodePCM16(channels: Float32Array[]): Int16Array {
+  const frames = channels[0]?.length || 0;
+  const pcm = new Int16Array(frames * channels.length);
+  for (let frame = 0; frame < frames; frame++) {
+    channels.forEach((samples, channel) => {
+      pcm[frame * channels.length + channel] = Math.max(
+        -32768,
+        Math.min(32767, samples[frame] * 32768)
+      );
+    });
+  }
+  return pcm;
+}
+
+/**
+ * PCM16 in format `from` as PCM16 in format `to`, resampled, with channels
+ * dropped or the first one repeated to match the channel count
+ */
+export function convertPCM16(
+  data: Uint8Array,
+  from: AudioFormat,
+  to: AudioFormat,
+): Int16Array {
+  const decoded = decodePCM16(data, from.channels);
+  const channels = Array.from({ length: to.channels }, (_, channel) =>
+    resample(decoded[channel] || decoded[0], from.sampleRate, to.sampleRate)
+  );
+  return encodePCM16(channels);
+}
@@ -14,16 +14,28 @@
  * limitations under the License.
  */
 
+import {
+  AudioFormat,
+  decodePCM16,
+  DEFAULT_OUTPUT_FORMAT,
+} from "./audio-format";
 import {
   createWorketFromSrc,
   registeredWorklets,
 } from "./audioworklet-registry";
 
+// samples of one channel each, at the rate the server announced
+type QueuedAudio = {
+  channels: Float32Array[];
+  sampleRate: number;
+};
+
 export class AudioStreamer {
-  private sampleRate: number = 24000;
-  private bufferSize: number = 7680;
-  // A queue of audio buffers to be played. Each buffer is a Float32Array.
-  private audioQueue: Float32Array[] = [];
+  // seconds per scheduled buffer, 7680 samples at 24kHz
+  private bufferDuration: number = 0.32;
+  // A queue of audio buffers to be played, each keeps its own sample rate so
+  // the context resamples it and a rate change mid-session keeps the pitch
+  private audioQueue: QueuedAudio[] = [];
   private isPlaying: boolean = false;
   // Indicates if the stream has finished playing, e.g., interrupted.
   private isStreamComplete: boolean = false;
@@ -34,8 +46,12 @@ export class AudioStreamer {
   public gainNode: GainNode;
   public source: AudioBufferSourceNode;
   private endOfQueueAudioSource: AudioBufferSourceNode | null = null;
+  // the first chunk after silence is waiting to be scheduled
+  private awaitingPlayback: boolean = false;
 
   public onComplete = () => {};
+  // ms from the first chunk after silence until it is audible
+  public onPlaybackStart = (latency: number) => {};
 
   constructor(public context: AudioContext) {
     this.gainNode = this.context.createGain();
@@ -77,60 +93,44 @@ export class AudioStreamer {
   }
 
   /**
-   * Converts a Uint8Array of PCM16 audio data into a Float32Array.
-   * PCM16 is a common raw audio format, but the Web Audio API generally
-   * expects audio data as Float32Arrays with samples normalized between -1.0 and 1.0.
-   * This function handles that conversion.
-   * @param chunk The Uint8Array containing PCM16 audio data.
-   * @returns A Float32Array representing the converted audio data.
+   * queues PCM16 audio for playback
+   * @param format the rate and channel count from the part's mime type, see
+   * `parseAudioMimeType`
    */
-  private _processPCM16Chunk(chunk: Uint8Array): Float32Array {
-    const float32Array = new Float32Array(chunk.length / 2);
-    const dataView = new DataView(chunk.buffer);
-
-    for (let i = 0; i < chunk.length / 2; i++) {
-      try {
-        const int16 = dataView.getInt16(i * 2, true);
-        float32Array[i] = int16 / 32768;
-      } catch (e) {
-        console.error(e);
-      }
-    }
-    return float32Array;
-  }
-
-  addPCM16(chunk: Uint8Array) {
+  addPCM16(chunk: Uint8Array, format: AudioFormat = DEFAULT_OUTPUT_FORMAT) {
     // Reset the stream complete flag when a new chunk is added.
     this.isStreamComplete = false;
-    // Process the chunk into a Float32Array
-    let processingBuffer = this._processPCM16Chunk(chunk);
-    // Add the processed buffer to the queue if it's larger than the buffer size.
-    // This is to ensure that the buffer is not too large.
-    while (processingBuffer.length >= this.bufferSize) {
-      const buffer = processingBuffer.slice(0, this.bufferSize);
-      this.audioQueue.push(buffer);
-      processingBuffer = processingBuffer.slice(this.bufferSize);
-    }
-    // Add the remaining buffer to the queue if it's not empty.
-    if (processingBuffer.length > 0) {
-      this.audioQueue.push(processingBuffer);
+    const channels = decodePCM16(chunk, format.channels);
+    const frames = channels[0]?.length || 0;
+    // Split the chunk so no single buffer is too large to schedule ahead.
+    const framesPerBuffer = Math.round(this.bufferDuration * format.sampleRate);
+    for (let start = 0; start < frames; start += framesPerBuffer) {
+      this.audioQueue.push({
+        sampleRate: format.sampleRate,
+        channels: channels.map((samples) =>
+          samples.subarray(start, start + framesPerBuffer)
+        ),
+      });
     }
     // Start playing if not already playing.
     if (!this.isPlaying) {
       this.isPlaying = true;
+      this.awaitingPlayback = true;
       // Initialize scheduledTime only when we start playing
       this.scheduledTime = this.context.currentTime + this.initialBufferTime;
       this.scheduleNextBuffer();
     }
   }
 
-  private createAudioBuffer(audioData: Float32Array): AudioBuffer {
+  private createAudioBuffer({ channels, sampleRate }: QueuedAudio): AudioBuffer {
     const audioBuffer = this.context.createBuffer(
-      1,
-      audioData.length,
-      this.sampleRate
+      channels.length,
+      channels[0].length,
+      sampleRate
+    );
+    channels.forEach((samples, channel) =>
+      audioBuffer.getChannelData(channel).set(samples)
     );
-    audioBuffer.getChannelData(0).set(audioData);
     return audioBuffer;
   }
 
@@ -183,6 +183,14 @@ export class AudioStreamer {
       // Ensure we never schedule in the past
       const startTime = Math.max(this.scheduledTime, this.context.currentTime);
       source.start(startTime);
+      if (this.awaitingPlayback) {
+        this.awaitingPlayback = false;
+        const outputLatency =
+          this.context.outputLatency || this.context.baseLatency || 0;
+        this.onPlaybackStart(
+          (startTime - this.context.currentTime + outputLatency) * 1000
+        );
+      }
       this.scheduledTime = startTime + audioBuffer.duration;
     }
 
@@ -0,0 +1,127 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AuthToken,
+  AuthTokenCache,
+  DEFAULT_TOKEN_REFRESH_MARGIN,
+} from "./auth-token";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// hands out auth_tokens/1, auth_tokens/2, ... with the given fields
+function tokenProvider(fields: Partial<AuthToken> = {}) {
+  let minted = 0;
+  return jest.fn(async () => ({ token: `auth_tokens/${++minted}`, ...fields }));
+}
+
+const now = Date.parse("2025-01-01T00:00:00Z");
+const inSeconds = (seconds: number) => new Date(now + seconds * 1000).toISOString();
+
+beforeEach(() => jest.spyOn(Date, "now").mockReturnValue(now));
+afterEach(() => jest.restoreAllMocks());
+
+test("uses a token once by default and prefetches the next one", async () => {
+  const provider = tokenProvider();
+  const cache = new AuthTokenCache(provider);
+  expect(await cache.take()).toBe("auth_tokens/1");
+  await flush();
+  expect(provider).toHaveBeenCalledTimes(2);
+  expect(await cache.take()).toBe("auth_tokens/2");
+});
+
+test("uses a token for as many sessions as it allows", async () => {
+  const provider = tokenProvider({ uses: 2 });
+  const cache = new AuthTokenCache(provider);
+  expect(await cache.take()).toBe("auth_tokens/1");
+  expect(await cache.take()).toBe("auth_tokens/1");
+  await flush();
+  expect(provider).toHaveBeenCalledTimes(2);
+  expect(await cache.take()).toBe("auth_tokens/2");
+
+  // 0 means no limit, there's nothing to prefetch
+  const unlimited = tokenProvider({ uses: 0 });
+  const unlimitedCache = new AuthTokenCache(unlimited);
+  await unlimitedCache.take();
+  await unlimitedCache.take();
+  await flush();
+  expect(unlimited).toHaveBeenCalledTimes(1);
+});
+
+test("replaces tokens within the refresh margin of expiring", async () => {
+  const margin = DEFAULT_TOKEN_REFRESH_MARGIN / 1000;
+  const provider = tokenProvider({
+    uses: 0,
+    expireTime: inSeconds(600),
+    newSessionExpireTime: inSeconds(60),
+  });
+  const cache = new AuthTokenCache(provider);
+  expect(await cache.take()).toBe("auth_tokens/1");
+
+  // new sessions are bounded by the earlier newSessionExpireTime
+  jest.spyOn(Date, "now").mockReturnValue(now + (60 - margin - 1) * 1000);
+  expect(await cache.take()).toBe("auth_tokens/1");
+  jest.spyOn(Date, "now").mockReturnValue(now + (60 - margin) * 1000);
+  expect(await cache.take()).toBe("auth_tokens/2");
+});
+
+test("honours a custom refresh margin and tokens without expiry", async () => {
+  const cache = new AuthTokenCache(
+    tokenProvider({ uses: 0, expireTime: inSeconds(60) }),
+    90_000
+  );
+  expect(await cache.take()).toBe("auth_tokens/1");
+  expect(await cache.take()).toBe("auth_tokens/2");
+
+  const forever = new AuthTokenCache(tokenProvider({ uses: 0 }));
+  await forever.take();
+  jest.spyOn(Date, "now").mockReturnValue(now + 365 * 24 * 3600 * 1000);
+  expect(await forever.take()).toBe("auth_tokens/1");
+});
+
+test("shares one request between concurrent takes", async () => {
+  const provider = tokenProvider({ uses: 2 });
+  const cache = new AuthTokenCache(provider);
+  const tokens = await Promise.all([cache.take(), cache.take()]);
+  expect(tokens).toEqual(["auth_tokens/1", "auth_tokens/1"]);
+  expect(provider).toHaveBeenCalledTimes(1);
+});
+
+test("fetches a new token after clear and surfaces provider errors", async () => {
+  const provider = tokenProvider({ uses: 0 });
+  const cache = new AuthTokenCache(provider);
+  await cache.take();
+  cache.clear();
+  expect(await cache.take()).toBe("auth_tokens/2");
+
+  const failing = new AuthTokenCache(async () => {
+    throw new Error("Token request failed: 500 Internal Server Error");
+  });
+  await expect(failing.take()).rejects.toThrow("500");
+  // a failed prefetch only warns, the next take asks again
+  const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  let calls = 0;
+  const flaky = new AuthTokenCache(async () => {
+    if (++calls === 2) {
+      throw new Error("offline");
+    }
+    return { token: `auth_tokens/${calls}` };
+  });
+  expect(await flaky.take()).toBe("auth_tokens/1");
+  await flush();
+  expect(warn).toHaveBeenCalledWith("Token prefetch failed", expect.any(Error));
+  expect(await flaky.take()).toBe("auth_tokens/3");
+});
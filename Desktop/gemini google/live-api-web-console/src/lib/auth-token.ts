@@ -0,0 +1,137 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * a short-lived token minted by a backend with `ai.authTokens.create`,
+ * see `server/token-server.ts`
+ */
+export type AuthToken = {
+  /** `auth_tokens/...`, passed to the SDK in place of an API key */
+  token: string;
+  /** after this, messages in sessions opened with the token are rejected */
+  expireTime?: string;
+  /** after this, no new session can be opened with the token */
+  newSessionExpireTime?: string;
+  /** how many sessions the token can open, 0 for no limit, defaults to 1 */
+  uses?: number;
+};
+
+export type AuthTokenProvider = () => Promise<AuthToken>;
+
+/**
+ * tokens this close to expiring are replaced rather than used
+ */
+export const DEFAULT_TOKEN_REFRESH_MARGIN = 10_000;
+
+/**
+ * a provider that asks a token backend for a new token, e.g. the reference
+ * `npm run token-server`
+ */
+export function fetchAuthToken(
+  url: string,
+  init: RequestInit = { method: "POST" },
+): AuthTokenProvider {
+  return async () => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      throw new Error(`Token request failed: ${response.status} ${response.statusText}`);
+    }
+    const body = (await response.json()) as AuthToken;
+    if (!body.token) {
+      throw new Error("Token response has no token");
+    }
+    return body;
+  };
+}
+
+// the earliest time a new session can no longer be opened with the token
+function sessionDeadline(token: AuthToken): number {
+  const times = [token.newSessionExpireTime, token.expireTime]
+    .map((t) => (t ? Date.parse(t) : NaN))
+    .filter((t) => Number.isFinite(t));
+  return times.length ? Math.min(...times) : Infinity;
+}
+
+/**
+ * Hands out tokens for new sessions. Each token is only used for as many
+ * sessions as it allows, and never when it is about to expire. After a token
+ * is taken, the next one is fetched in the background so a reconnect doesn't
+ * wait on the token backend.
+ */
+export class AuthTokenCache {
+  private current: AuthToken | null = null;
+  private usesLeft = 0;
+  private pending: Promise<AuthToken> | null = null;
+
+  constructor(
+    private provider: AuthTokenProvider,
+    private refreshMargin = DEFAULT_TOKEN_REFRESH_MARGIN,
+  ) {}
+
+  /**
+   * a token good for opening one session
+   */
+  async take(): Promise<string> {
+    if (!this.usable()) {
+      this.store(await this.fetch());
+    }
+    const { token, uses = 1 } = this.current!;
+    if (uses > 0 && --this.usesLeft <= 0) {
+      this.current = null;
+      this.prefetch();
+    }
+    return token;
+  }
+
+  /**
+   * drops the cached token, e.g. after the server rejected it
+   */
+  clear() {
+    this.current = null;
+    this.usesLeft = 0;
+  }
+
+  private usable(): boolean {
+    return (
+      !!this.current &&
+      sessionDeadline(this.current) - this.refreshMargin > Date.now()
+    );
+  }
+
+  private store(token: AuthToken) {
+    this.current = token;
+    this.usesLeft = token.uses ?? 1;
+  }
+
+  private fetch(): Promise<AuthToken> {
+    if (!this.pending) {
+      this.pending = this.provider().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private prefetch() {
+    this.fetch()
+      .then((token) => {
+        if (!this.current) {
+          this.store(token);
+        }
+      })
+      .catch((e) => console.warn("Token prefetch failed", e));
+  }
+}
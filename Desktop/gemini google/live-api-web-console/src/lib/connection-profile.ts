@@ -0,0 +1,116 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveClientOptions } from "../types/types";
+import { fetchAuthToken } from "./auth-token";
+
+export type ConnectionProfileKind = "gemini" | "vertex" | "proxy";
+
+type ProfileBase = {
+  id: string;
+  name: string;
+  /** defined in code or .env rather than by the user, never persisted */
+  builtin?: boolean;
+  /** overrides the SDK's default, e.g. "v1alpha" */
+  apiVersion?: string;
+};
+
+/**
+ * where and how the console connects
+ * - gemini: the Gemini API with an API key or ephemeral tokens from `authTokenUrl`
+ * - vertex: Vertex AI in `project` / `location`, directly or through `baseUrl`
+ * - proxy: any endpoint speaking the Live API protocol, e.g. `npm run mock-server`
+ */
+export type ConnectionProfile = ProfileBase &
+  (
+    | { kind: "gemini"; apiKey?: string; authTokenUrl?: string }
+    | {
+        kind: "vertex";
+        project: string;
+        location: string;
+        apiKey?: string;
+        baseUrl?: string;
+      }
+    | { kind: "proxy"; baseUrl: string; apiKey?: string }
+  );
+
+export const connectionProfileKinds: Record<ConnectionProfileKind, string> = {
+  gemini: "Gemini API",
+  vertex: "Vertex AI",
+  proxy: "Custom endpoint",
+};
+
+// the browser SDK refuses to connect without a key, a proxy may not need one
+const PROXY_PLACEHOLDER_KEY = "proxy";
+
+/**
+ * the client options for `profile`, on top of the app-wide `base` options
+ */
+export function profileOptions(
+  profile: ConnectionProfile,
+  base: Partial<LiveClientOptions> = {},
+): LiveClientOptions {
+  const httpOptions = (baseUrl?: string) => ({
+    ...base.httpOptions,
+    ...(baseUrl && { baseUrl }),
+    ...(profile.apiVersion && { apiVersion: profile.apiVersion }),
+  });
+
+  switch (profile.kind) {
+    case "gemini":
+      return {
+        ...base,
+        apiKey: profile.authTokenUrl ? undefined : profile.apiKey,
+        authToken: profile.authTokenUrl
+          ? fetchAuthToken(profile.authTokenUrl)
+          : undefined,
+        httpOptions: httpOptions(),
+      };
+    case "vertex":
+      return {
+        ...base,
+        vertexai: true,
+        project: profile.project,
+        location: profile.location,
+        apiKey: profile.apiKey || (profile.baseUrl ? PROXY_PLACEHOLDER_KEY : undefined),
+        httpOptions: httpOptions(profile.baseUrl),
+      };
+    case "proxy":
+      return {
+        ...base,
+        apiKey: profile.apiKey || PROXY_PLACEHOLDER_KEY,
+        httpOptions: httpOptions(profile.baseUrl),
+      };
+  }
+}
+
+/**
+ * what's missing before `profile` can connect, if anything
+ */
+export function profileProblem(profile: ConnectionProfile): string | undefined {
+  switch (profile.kind) {
+    case "gemini":
+      return profile.apiKey || profile.authTokenUrl
+        ? undefined
+        : "Set an API key or a token URL";
+    case "vertex":
+      return profile.project && profile.location
+        ? undefined
+        : "Set a project and a location";
+    case "proxy":
+      return profile.baseUrl ? undefined : "Set a base URL";
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The lifecycle of a `GenAILiveClient` connection.
+ *
+ * idle -> connecting -> awaiting-setup -> connected
+ * connected -> reconnecting (attempt n) -> connected | failed
+ * any active state -> closing -> idle
+ */
+export type ConnectionState =
+  | { status: "idle" }
+  | { status: "connecting" }
+  | { status: "awaiting-setup" }
+  | { status: "connected" }
+  | { status: "reconnecting"; attempt: number }
+  | { status: "closing" }
+  | { status: "failed"; reason: string };
+
+export type ConnectionStatus = ConnectionState["status"];
+
+const transitions: Record<ConnectionStatus, ConnectionStatus[]> = {
+  idle: ["connecting"],
+  connecting: ["awaiting-setup", "failed", "closing"],
+  "awaiting-setup": ["connected", "reconnecting", "failed", "closing", "idle"],
+  connected: ["reconnecting", "failed", "closing", "idle"],
+  reconnecting: ["reconnecting", "connected", "failed", "closing"],
+  closing: ["idle"],
+  failed: ["connecting", "idle"],
+};
+
+export function canTransition(from: ConnectionStatus, to: ConnectionStatus) {
+  return transitions[from].includes(to);
+}
+
+/**
+ * whether the client holds, or is working towards, a live session
+ */
+export function isActive(state: ConnectionState): boolean {
+  return state.status !== "idle" && state.status !== "failed";
+}
+
+export function describeConnectionState(state: ConnectionState): string {
+  switch (state.status) {
+    case "idle":
+      return "Disconnected";
+    case "connecting":
+      return "Connecting";
+    case "awaiting-setup":
+      return "Setting up";
+    case "connected":
+      return "Streaming";
+    case "reconnecting":
+      return `Reconnecting (${state.attempt})`;
+    case "closing":
+      return "Closing";
+    case "failed":
+      return "Failed";
+  }
+}
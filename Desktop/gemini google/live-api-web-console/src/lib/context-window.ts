@@ -0,0 +1,61 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig } from "@google/genai";
+import { TokenUsage } from "./usage-meter";
+
+/**
+ * context window of the half-cascade Live models, used for models missing
+ * from the model registry
+ */
+export const DEFAULT_CONTEXT_WINDOW_TOKENS = 32768;
+
+/**
+ * prompt tokens only grow within a session, a drop of more than this
+ * fraction means the server compressed the context
+ */
+const COMPRESSION_DROP_RATIO = 0.1;
+
+export type ContextWindowStatus = {
+  /** tokens in context as of the latest usage report */
+  used: number;
+  /** the compression trigger when compression is on, the context window otherwise */
+  limit: number;
+  ratio: number;
+  compression: boolean;
+};
+
+export function contextWindowStatus(
+  usage: TokenUsage,
+  config: LiveConnectConfig,
+  contextWindow = DEFAULT_CONTEXT_WINDOW_TOKENS,
+): ContextWindowStatus {
+  const compression = !!config.contextWindowCompression;
+  const trigger = Number(config.contextWindowCompression?.triggerTokens);
+  const limit = compression && trigger > 0 ? trigger : contextWindow;
+  const used = usage.prompt + usage.response;
+  return { used, limit, ratio: limit ? used / limit : 0, compression };
+}
+
+export function compressionDetected(
+  previousPromptTokens: number,
+  promptTokens: number,
+): boolean {
+  return (
+    previousPromptTokens > 0 &&
+    promptTokens < previousPromptTokens * (1 - COMPRESSION_DROP_RATIO)
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ConversationAudioRecorder } from "./conversation-audio-recorder";
+import { decodeWav } from "./wav";
+
+// `seconds` of PCM16 at `rate` holding `value` on every channel
+function pcm(seconds: number, rate: number, value: number, channels = 1) {
+  const samples = new Int16Array(Math.round(seconds * rate) * channels);
+  samples.fill(value * 32768);
+  return new Uint8Array(samples.buffer);
+}
+
+const base64 = (data: Uint8Array) => Buffer.from(data).toString("base64");
+
+const model = (rate = 24000) => ({ sampleRate: rate, channels: 1 });
+const user = (rate = 16000) => ({ sampleRate: rate, channels: 1 });
+
+// the recorder on a clock the test moves by hand, in seconds
+function recorder() {
+  let time = 0;
+  const recorder = new ConversationAudioRecorder(() => time * 1000);
+  return {
+    recorder,
+    at: (seconds: number) => {
+      time = seconds;
+    },
+  };
+}
+
+// the seconds of `samples` holding sound, to the nearest sample
+function soundAt(samples: Float32Array, sampleRate: number) {
+  const first = samples.findIndex((s) => s !== 0);
+  const last = samples.length - 1 - [...samples].reverse().findIndex((s) => s !== 0);
+  return first === -1 ? null : [first / sampleRate, (last + 1) / sampleRate];
+}
+
+test("only records between start and stop", () => {
+  const { recorder: r } = recorder();
+  const change = jest.fn();
+  r.on("change", change);
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  expect(r.isEmpty).toBe(true);
+
+  r.start();
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  r.stop();
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  r.addUserAudio(base64(pcm(1, 16000, 0.5)));
+  expect(r.duration).toBe(1);
+  expect(change.mock.calls).toEqual([[true], [false]]);
+
+  // a new recording drops the previous one
+  r.start();
+  expect(r.isEmpty).toBe(true);
+  expect(r.duration).toBe(0);
+});
+
+test("queues model audio after what is still playing", () => {
+  const { recorder: r, at } = recorder();
+  r.start();
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  expect(r.duration).toBe(2);
+  // after a pause, the next response starts when it arrives
+  at(3);
+  r.addModelAudio(pcm(0.5, 24000, 0.5));
+  expect(r.duration).toBe(3.5);
+
+  const { sampleRate, channels } = decodeWav(r.toWav("model"));
+  expect(sampleRate).toBe(24000);
+  expect(channels).toHaveLength(1);
+  expect(channels[0]).toHaveLength(3.5 * 24000);
+  expect(soundAt(channels[0].subarray(0, 3 * 24000), 24000)).toEqual([0, 2]);
+  expect(soundAt(channels[0].subarray(3 * 24000), 24000)).toEqual([0, 0.5]);
+});
+
+test("cuts off model audio that hadn't played when interrupted", () => {
+  const { recorder: r, at } = recorder();
+  r.start();
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  at(1.5);
+  r.interruptModel();
+  expect(r.duration).toBe(1.5);
+  const [samples] = decodeWav(r.toWav("model")).channels;
+  expect(samples).toHaveLength(1.5 * 24000);
+  expect(soundAt(samples, 24000)).toEqual([0, 1.5]);
+
+  // nothing left to cut once it played out
+  r.addModelAudio(pcm(1, 24000, 0.5));
+  at(4);
+  r.interruptModel();
+  expect(r.duration).toBe(2.5);
+});
+
+test("places microphone audio where it was captured", () => {
+  const { recorder: r, at } = recorder();
+  r.start();
+  at(1);
+  r.addUserAudio(base64(pcm(0.5, 16000, 0.5)), user());
+  // a late chunk doesn't overlap the one before
+  r.addUserAudio(base64(pcm(0.25, 16000, 0.5)), user());
+  expect(r.duration).toBe(1.25);
+  const [samples] = decodeWav(r.toWav("user")).channels;
+  expect(soundAt(samples, 16000)).toEqual([0.5, 1.25]);
+});
+
+test("puts the user left and the model right at the highest rate", () => {
+  const { recorder: r, at } = recorder();
+  r.start();
+  at(0.5);
+  r.addUserAudio(base64(pcm(0.5, 16000, 0.25)), user());
+  r.addModelAudio(pcm(1, 24000, 0.5), model());
+
+  const { sampleRate, channels } = decodeWav(r.toWav("stereo"));
+  expect(sampleRate).toBe(24000);
+  expect(channels).toHaveLength(2);
+  const [left, right] = channels;
+  expect(left).toHaveLength(1.5 * 24000);
+  expect(soundAt(left, 24000)).toEqual([0, 0.5]);
+  expect(left[6000]).toBe(0.25);
+  expect(soundAt(right, 24000)).toEqual([0.5, 1.5]);
+  expect(right[24000]).toBe(0.5);
+
+  // a lower rate track on its own keeps its rate
+  expect(decodeWav(r.toWav("user")).sampleRate).toBe(16000);
+});
+
+test("mixes multichannel input down to mono", () => {
+  const { recorder: r } = recorder();
+  r.start();
+  const stereo = new Int16Array(2 * 100);
+  for (let i = 0; i < stereo.length; i += 2) {
+    stereo[i] = 16384;
+  }
+  r.addModelAudio(new Uint8Array(stereo.buffer), { sampleRate: 100, channels: 2 });
+  const { sampleRate, channels } = decodeWav(r.toWav("model"));
+  expect(sampleRate).toBe(100);
+  expect(Array.from(channels[0]).every((s) => s === 0.25)).toBe(true);
+});
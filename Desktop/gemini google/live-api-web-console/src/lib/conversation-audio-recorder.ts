@@ -0,0 +1,200 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import {
+  AudioFormat,
+  decodePCM16,
+  DEFAULT_INPUT_FORMAT,
+  DEFAULT_OUTPUT_FORMAT,
+  encodePCM16,
+} from "./audio-format";
+import { base64ToArrayBuffer } from "./utils";
+import { encodeWav, resample } from "./wav";
+
+/**
+ * - model: what the model said
+ * - user: what the microphone picked up
+ * - stereo: both, the user on the left and the model on the right
+ */
+export type ConversationAudioTrack = "model" | "user" | "stereo";
+
+type Segment = {
+  /** seconds since the recording started */
+  at: number;
+  sampleRate: number;
+  samples: Float32Array;
+};
+
+export interface ConversationAudioRecorderEventTypes {
+  change: (recording: boolean) => void;
+}
+
+/**
+ * Keeps the model's speech and the microphone input on one timeline while
+ * recording is on, so a conversation can be saved as WAV. Model audio arrives
+ * faster than it plays, so each chunk is placed after the previous one the way
+ * `AudioStreamer` queues it, and an interruption cuts off what had not played
+ * yet. Microphone chunks are placed where they were captured.
+ */
+export class ConversationAudioRecorder extends EventEmitter<ConversationAudioRecorderEventTypes> {
+  private model: Segment[] = [];
+  private user: Segment[] = [];
+  private modelEnd = 0;
+  private userEnd = 0;
+  private startedAt = 0;
+  private _recording = false;
+
+  constructor(private now: () => number = () => Date.now()) {
+    super();
+  }
+
+  get recording() {
+    return this._recording;
+  }
+
+  /** length of the timeline in seconds */
+  get duration() {
+    return Math.max(this.modelEnd, this.userEnd);
+  }
+
+  get isEmpty() {
+    return !this.model.length && !this.user.length;
+  }
+
+  /**
+   * starts a new recording, dropping the previous one
+   */
+  start() {
+    this.model = [];
+    this.user = [];
+    this.modelEnd = 0;
+    this.userEnd = 0;
+    this.startedAt = this.now();
+    this._recording = true;
+    this.emit("change", true);
+  }
+
+  stop() {
+    this._recording = false;
+    this.emit("change", false);
+  }
+
+  /** PCM16 as emitted by the client's `audio` event */
+  addModelAudio(data: ArrayBuffer | Uint8Array, format = DEFAULT_OUTPUT_FORMAT) {
+    if (!this._recording) {
+      return;
+    }
+    const samples = toMono(data, format);
+    const at = Math.max(this.elapsed(), this.modelEnd);
+    this.model.push({ at, sampleRate: format.sampleRate, samples });
+    this.modelEnd = at + samples.length / format.sampleRate;
+  }
+
+  /** base64 PCM16 as emitted by `AudioRecorder`'s `data` event */
+  addUserAudio(base64: string, format = DEFAULT_INPUT_FORMAT) {
+    if (!this._recording) {
+      return;
+    }
+    const samples = toMono(base64ToArrayBuffer(base64), format);
+    const duration = samples.length / format.sampleRate;
+    // a chunk is reported once it has been captured
+    const at = Math.max(this.elapsed() - duration, this.userEnd);
+    this.user.push({ at, sampleRate: format.sampleRate, samples });
+    this.userEnd = at + duration;
+  }
+
+  /**
+   * drops model audio that would have played after now, as the player does
+   * when the model is interrupted
+   */
+  interruptModel() {
+    const now = this.elapsed();
+    if (!this._recording || this.modelEnd <= now) {
+      return;
+    }
+    this.model = this.model
+      .filter((segment) => segment.at < now)
+      .map((segment) => {
+        const keep = Math.round((now - segment.at) * segment.sampleRate);
+        return keep < segment.samples.length
+          ? { ...segment, samples: segment.samples.subarray(0, keep) }
+          : segment;
+      });
+    this.modelEnd = now;
+  }
+
+  /**
+   * the recording as a 16 bit WAV file, at the highest sample rate that went
+   * into it
+   */
+  toWav(track: ConversationAudioTrack): Uint8Array {
+    const tracks =
+      track === "stereo" ? [this.user, this.model] : [this[track]];
+    const segments = tracks.flat();
+    const sampleRate = segments.length
+      ? Math.max(...segments.map((s) => s.sampleRate))
+      : DEFAULT_OUTPUT_FORMAT.sampleRate;
+    const length = Math.ceil(this.duration * sampleRate);
+    const channels = tracks.map((segments) => {
+      const mixed = new Float32Array(length);
+      for (const segment of segments) {
+        const samples = resample(segment.samples, segment.sampleRate, sampleRate);
+        const offset = Math.round(segment.at * sampleRate);
+        mixed.set(samples.subarray(0, length - offset), offset);
+      }
+      return mixed;
+    });
+    return encodeWav(encodePCM16(channels), sampleRate, channels.length);
+  }
+
+  /**
+   * saves a track as a file, browser only
+   */
+  download(
+    track: ConversationAudioTrack,
+    filename = `conversation-${track}-${new Date(this.startedAt).toISOString()}.wav`,
+  ) {
+    const url = URL.createObjectURL(
+      new Blob([this.toWav(track)], { type: "audio/wav" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename.replace(/:/g, "-");
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private elapsed() {
+    return (this.now() - this.startedAt) / 1000;
+  }
+}
+
+/** one channel, the average of all of them */
+function toMono(data: ArrayBuffer | Uint8Array, format: AudioFormat): Float32Array {
+  const channels = decodePCM16(
+    data instanceof Uint8Array ? data : new Uint8Array(data),
+    format.channels
+  );
+  if (channels.length === 1) {
+    return channels[0];
+  }
+  const mono = new Float32Array(channels[0].length);
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] = channels.reduce((sum, channel) => sum + channel[i], 0) / channels.length;
+  }
+  return mono;
+}
@@ -0,0 +1,392 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Content,
+  LiveCallbacks,
+  LiveConnectParameters,
+  LiveServerMessage,
+  Modality,
+} from "@google/genai";
+import { GenAILiveClient } from "./genai-live-client";
+import { createCloseEvent, LiveEnvironment, TimerHandle } from "./live-environment";
+import { LiveTransport, LiveTransportSession } from "./live-transport";
+import { ReplayTransport } from "./replay-transport";
+import { parseRecording } from "./session-recorder";
+import {
+  DEFAULT_SESSION_MAX_AGE,
+  MemorySessionStore,
+  sessionKey,
+} from "./session-store";
+
+// hands every connect to the test, which plays the server through the callbacks
+class ScriptedTransport implements LiveTransport {
+  connects: LiveConnectParameters[] = [];
+  sessions: Record<keyof LiveTransportSession, jest.Mock>[] = [];
+
+  get server(): LiveCallbacks {
+    return this.connects[this.connects.length - 1].callbacks;
+  }
+
+  async connect(params: LiveConnectParameters) {
+    this.connects.push(params);
+    const session = {
+      sendClientContent: jest.fn(),
+      sendRealtimeInput: jest.fn(),
+      sendToolResponse: jest.fn(),
+      close: jest.fn(),
+    };
+    this.sessions.push(session);
+    return session;
+  }
+}
+
+// timers that only fire when the test says so
+function manualEnvironment() {
+  const pending = new Map<number, () => void>();
+  let next = 0;
+  const add = (callback: () => void) => {
+    pending.set(++next, callback);
+    return next as unknown as TimerHandle;
+  };
+  const remove = (handle: TimerHandle) =>
+    pending.delete(handle as unknown as number);
+  const environment: LiveEnvironment = {
+    timers: {
+      setTimeout: add,
+      clearTimeout: remove,
+      setInterval: () => 0 as unknown as TimerHandle,
+      clearInterval: () => {},
+    },
+    sessionStore: () => new MemorySessionStore(),
+    closeEvent: createCloseEvent,
+  };
+  const runAll = () => {
+    const callbacks = Array.from(pending.values());
+    pending.clear();
+    callbacks.forEach((callback) => callback());
+  };
+  return { environment, pending, runAll };
+}
+
+// LiveServerMessage is a class, the client only reads its fields
+const message = (fields: Partial<LiveServerMessage>) =>
+  fields as LiveServerMessage;
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+test("runs without a DOM and resumes after a dropped connection", async () => {
+  const transport = new ScriptedTransport();
+  const { environment, pending, runAll } = manualEnvironment();
+  const client = new GenAILiveClient({ transport, environment });
+
+  await client.connect("models/gemini-2.0-flash-exp", {});
+  transport.server.onopen?.();
+  transport.server.onmessage(message({ setupComplete: {} }));
+  transport.server.onmessage(
+    message({
+      sessionResumptionUpdate: { newHandle: "handle-1", resumable: true },
+    })
+  );
+  expect(client.status).toBe("connected");
+
+  transport.server.onclose?.(createCloseEvent("close", { code: 1011 }));
+  expect(client.status).toBe("reconnecting");
+  expect(pending.size).toBe(1);
+
+  runAll();
+  await flush();
+  expect(transport.connects).toHaveLength(2);
+  expect(transport.connects[1].config?.sessionResumption?.handle).toBe(
+    "handle-1"
+  );
+
+  transport.server.onmessage(message({ setupComplete: {} }));
+  expect(client.status).toBe("connected");
+  client.disconnect();
+  expect(client.status).toBe("idle");
+});
+
+test("fails without connecting when the model rejects the config", async () => {
+  const transport = new ScriptedTransport();
+  const { environment } = manualEnvironment();
+  const client = new GenAILiveClient({ transport, environment });
+
+  const connected = await client.connect(
+    "models/gemini-2.5-flash-preview-native-audio-dialog",
+    { responseModalities: [Modality.TEXT] }
+  );
+  expect(connected).toBe(false);
+  expect(client.state).toEqual({
+    status: "failed",
+    reason: "Text responses are not available on native audio models",
+  });
+  expect(transport.connects).toHaveLength(0);
+});
+
+test("is left failed with the reason when there are no credentials", async () => {
+  const { environment } = manualEnvironment();
+  const client = new GenAILiveClient({ environment });
+
+  await expect(
+    client.connect("models/gemini-2.0-flash-exp", {})
+  ).rejects.toThrow("No credentials");
+  expect(client.state).toEqual({
+    status: "failed",
+    reason: "No credentials, set apiKey or authToken",
+  });
+});
+
+test("resumes stored handles until they are older than the max age", async () => {
+  const model = "models/gemini-2.0-flash-exp";
+  const key = sessionKey(model, {});
+  const sessionStore = new MemorySessionStore();
+  const { environment } = manualEnvironment();
+  const connectWith = async (updatedAt: number) => {
+    await sessionStore.set(key, { handle: "handle-1", updatedAt });
+    const transport = new ScriptedTransport();
+    const client = new GenAILiveClient({ transport, environment, sessionStore });
+    await client.connect(model, {});
+    client.disconnect();
+    return transport.connects[0].config?.sessionResumption?.handle;
+  };
+
+  expect(await connectWith(Date.now() - DEFAULT_SESSION_MAX_AGE + 60_000)).toBe(
+    "handle-1"
+  );
+  expect(await connectWith(Date.now() - DEFAULT_SESSION_MAX_AGE - 1)).toBeUndefined();
+  expect(await sessionStore.get(key)).toBeNull();
+});
+
+test("records messages after the middleware redacted them", async () => {
+  const transport = new ScriptedTransport();
+  const { environment } = manualEnvironment();
+  const client = new GenAILiveClient({ transport, environment, record: true });
+  const redact = (content?: Content): Content => ({
+    ...content,
+    parts: content?.parts?.map(({ text }) => ({
+      text: text?.replace(/\d{4}-\d{4}/g, "[redacted]"),
+    })),
+  });
+  client.use({
+    onSend: (outbound) =>
+      "clientContent" in outbound
+        ? {
+            clientContent: {
+              ...outbound.clientContent,
+              turns: (outbound.clientContent.turns as Content[]).map(redact),
+            },
+          }
+        : outbound,
+    onReceive: (received) =>
+      received.serverContent
+        ? message({ serverContent: { modelTurn: redact(received.serverContent.modelTurn) } })
+        : received,
+  });
+
+  await client.connect("models/gemini-2.0-flash-exp", {});
+  transport.server.onmessage(message({ setupComplete: {} }));
+  await flush();
+  client.send({ text: "card 1234-5678" });
+  transport.server.onmessage(
+    message({ serverContent: { modelTurn: { parts: [{ text: "card 1234-5678" }] } } })
+  );
+  await flush();
+
+  const recording = client.recorder.toJSONL();
+  expect(recording).not.toContain("1234-5678");
+  expect(recording.match(/\[redacted\]/g)).toHaveLength(2);
+});
+
+test("logs sends that middleware dropped or that failed behind it", async () => {
+  const transport = new ScriptedTransport();
+  const { environment } = manualEnvironment();
+  const client = new GenAILiveClient({ transport, environment });
+  const logs: string[] = [];
+  client.on("log", ({ type }) => logs.push(type));
+  client.use({
+    onSend: (outbound) =>
+      "clientContent" in outbound &&
+      JSON.stringify(outbound.clientContent).includes("drop me")
+        ? null
+        : outbound,
+  });
+
+  await client.connect("models/gemini-2.0-flash-exp", {});
+  transport.server.onopen?.();
+  transport.server.onmessage(message({ setupComplete: {} }));
+  await flush();
+  client.send({ text: "drop me" });
+  await flush();
+  expect(logs).toContain("client.send.dropped");
+  expect(logs).not.toContain("client.send.sent");
+
+  transport.sessions[0].sendClientContent.mockImplementationOnce(() => {
+    throw new Error("socket closed");
+  });
+  client.send({ text: "hello" });
+  await flush();
+  expect(logs).toContain("client.send.exception");
+  expect(logs).not.toContain("client.send.sent");
+});
+
+test("measures speech end to audio, also when the end is marked late", async () => {
+  const transport = new ScriptedTransport();
+  const { environment } = manualEnvironment();
+  const client = new GenAILiveClient({ transport, environment });
+  const audio = () =>
+    transport.server.onmessage(
+      message({
+        serverContent: {
+          modelTurn: {
+            parts: [{ inlineData: { mimeType: "audio/pcm;rate=24000", data: "AAAA" } }],
+          },
+        },
+      })
+    );
+  const turnComplete = () =>
+    transport.server.onmessage(message({ serverContent: { turnComplete: true } }));
+  const now = jest.spyOn(Date, "now");
+
+  await client.connect("models/gemini-2.0-flash-exp", {});
+  transport.server.onopen?.();
+  transport.server.onmessage(message({ setupComplete: {} }));
+
+  now.mockReturnValue(1000);
+  client.markSpeechEnd();
+  now.mockReturnValue(1400);
+  audio();
+  now.mockReturnValue(1500);
+  audio();
+  turnComplete();
+
+  // a detector that only noticed the end after the response started
+  now.mockReturnValue(2300);
+  audio();
+  now.mockReturnValue(2600);
+  client.markSpeechEnd(2000);
+  turnComplete();
+
+  // speech marked while the model talks is dropped with its turn
+  now.mockReturnValue(3000);
+  audio();
+  client.markSpeechEnd(3100);
+  now.mockReturnValue(3200);
+  audio();
+  turnComplete();
+
+  now.mockRestore();
+  expect(client.latency.snapshot.speechToAudio).toMatchObject({
+    count: 2,
+    p50: 300,
+    max: 400,
+  });
+});
+
+// the events a client emits, with what is deterministic about them
+function eventLog(client: GenAILiveClient) {
+  const events: unknown[][] = [];
+  client
+    .on("open", () => events.push(["open"]))
+    .on("setupcomplete", () => events.push(["setupcomplete"]))
+    .on("content", (content) => events.push(["content", content]))
+    .on("turncomplete", () => events.push(["turncomplete"]))
+    .on("sessionresumptionupdate", (update) =>
+      events.push(["sessionresumptionupdate", update])
+    )
+    .on("close", (e) => events.push(["close", e.code]))
+    .on("reconnectattempt", (attempt) => events.push(["reconnectattempt", attempt]))
+    .on("statechange", (state) => events.push(["statechange", state.status]));
+  return events;
+}
+
+test("replays a recording with the same events and connections", async () => {
+  const model = "models/gemini-2.0-flash-exp";
+  const transport = new ScriptedTransport();
+  const recorded = manualEnvironment();
+  const client = new GenAILiveClient({
+    transport,
+    environment: recorded.environment,
+    record: true,
+  });
+  const recordedEvents = eventLog(client);
+
+  await client.connect(model, {});
+  transport.server.onopen?.();
+  transport.server.onmessage(message({ setupComplete: {} }));
+  transport.server.onmessage(
+    message({
+      sessionResumptionUpdate: { newHandle: "handle-1", resumable: true },
+    })
+  );
+  transport.server.onmessage(
+    message({ serverContent: { modelTurn: { parts: [{ text: "hello" }] } } })
+  );
+  transport.server.onclose?.(createCloseEvent("close", { code: 1011 }));
+  recorded.runAll();
+  await flush();
+  transport.server.onopen?.();
+  transport.server.onmessage(message({ setupComplete: {} }));
+  transport.server.onmessage(message({ serverContent: { turnComplete: true } }));
+  client.disconnect();
+
+  const entries = parseRecording(client.recorder.toJSONL());
+  expect(Array.from(new Set(entries.map((e) => e.connection)))).toEqual([1, 2]);
+  expect(
+    entries.filter((e) => e.dir === "in").map((e) => [e.connection, e.kind])
+  ).toEqual([
+    [1, "open"],
+    [1, "message"],
+    [1, "message"],
+    [1, "message"],
+    [1, "close"],
+    [2, "open"],
+    [2, "message"],
+    [2, "message"],
+  ]);
+
+  const replayed = manualEnvironment();
+  const replay = new ReplayTransport(entries, {
+    speed: 0,
+    timers: replayed.environment.timers,
+  });
+  const replayClient = new GenAILiveClient({
+    transport: replay,
+    environment: replayed.environment,
+  });
+  const replayedEvents = eventLog(replayClient);
+
+  await replayClient.connect(model, {});
+  // the first session, then the reconnect, then the second session
+  replayed.runAll();
+  expect(replay.remaining).toBe(1);
+  replayed.runAll();
+  await flush();
+  expect(replay.remaining).toBe(0);
+  replayed.runAll();
+  replayClient.disconnect();
+
+  expect(replayedEvents).toEqual(recordedEvents);
+  expect(replayedEvents).toContainEqual(["reconnectattempt", 1]);
+  expect(replayedEvents).toContainEqual([
+    "content",
+    { modelTurn: { parts: [{ text: "hello" }] } },
+  ]);
+});
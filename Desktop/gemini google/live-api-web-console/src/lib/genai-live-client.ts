@@ -16,21 +16,68 @@
 
 import {
   Content,
-  GoogleGenAI,
   LiveCallbacks,
   LiveClientToolResponse,
   LiveConnectConfig,
+  LiveSendRealtimeInputParameters,
   LiveServerContent,
   LiveServerMessage,
   LiveServerToolCall,
   LiveServerToolCallCancellation,
   Part,
-  Session,
+  Transcription,
+  UsageMetadata,
 } from "@google/genai";
 
 import { EventEmitter } from "eventemitter3";
-import { difference } from "lodash";
+import { difference, isEqual } from "lodash";
 import { LiveClientOptions, StreamingLog } from "../types/types";
+import { AudioFormat, parseAudioMimeType } from "./audio-format";
+import { compressionDetected } from "./context-window";
+import {
+  canTransition,
+  ConnectionState,
+  ConnectionStatus,
+  isActive,
+} from "./connection-state";
+import {
+  LiveMiddleware,
+  MiddlewarePipeline,
+  MiddlewareTransport,
+} from "./live-middleware";
+import { LatencyMetrics } from "./latency-metrics";
+import {
+  LiveEnvironment,
+  LiveTimers,
+  nodeEnvironment,
+  TimerHandle,
+} from "./live-environment";
+import {
+  GenAILiveTransport,
+  LiveTransport,
+  LiveTransportSession,
+  SendResult,
+} from "./live-transport";
+import { validateLiveConfig } from "./model-registry";
+import {
+  OutboundQueue,
+  OutboundQueueStats,
+  RealtimeChunk,
+  RealtimeInput,
+} from "./outbound-queue";
+import {
+  reconnectDelay,
+  ReconnectPolicy,
+  resolveReconnectPolicy,
+} from "./reconnect-policy";
+import {
+  DEFAULT_SESSION_MAX_AGE,
+  SessionStore,
+  sessionKey,
+} from "./session-store";
+import { RecordingTransport, SessionRecorder } from "./session-recorder";
+import { nonBlockingFunctionNames, ToolRegistry } from "./tool-registry";
+import { UsageMeter, UsageSnapshot } from "./usage-meter";
 import { base64ToArrayBuffer } from "./utils";
 
 
@@ -43,15 +90,65 @@ interface SessionResumptionUpdate {
 }
 
 interface GoAway {
-  timeLeft: number;
+  timeLeft?: string | number;
   reason?: string;
 }
 
+/** how a send through the session ended, see `SendResult` */
+type SendOutcome = "sent" | "dropped" | "failed";
+
+/**
+ * calls `then` once every send settled; without middleware sends settle right
+ * away, so the outcome is still reported synchronously
+ */
+function whenSettled(
+  outcomes: (SendOutcome | Promise<SendOutcome>)[],
+  then: (outcomes: SendOutcome[]) => void,
+) {
+  if (outcomes.every((outcome) => typeof outcome === "string")) {
+    then(outcomes as SendOutcome[]);
+  } else {
+    Promise.all(outcomes).then(then);
+  }
+}
+
+/**
+ * a replacement session being opened ahead of a GoAway
+ */
+type Handover = {
+  connectionId: number;
+  session: LiveTransportSession | null;
+  setupComplete: boolean;
+  deadline: TimerHandle | null;
+};
+
+/**
+ * the next reconnect attempt, `at` is a timestamp in ms
+ */
+export type ReconnectSchedule = {
+  attempt: number;
+  delay: number;
+  at: number;
+};
+
+/**
+ * GoAway `timeLeft` is a protobuf duration such as "10s" or "0.5s",
+ * older servers sent plain milliseconds
+ */
+function parseTimeLeft(timeLeft: GoAway["timeLeft"]): number {
+  if (typeof timeLeft === "number") {
+    return timeLeft;
+  }
+  const seconds = parseFloat(timeLeft || "");
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
 /**
  * Event types that can be emitted by the MultimodalLiveClient.
  */
 export interface LiveClientEventTypes {
-  audio: (data: ArrayBuffer) => void;
+  /** PCM16 model audio in the format its mime type announced */
+  audio: (data: ArrayBuffer, format: AudioFormat) => void;
   close: (event: CloseEvent) => void;
   content: (data: LiveServerContent) => void;
   error: (error: ErrorEvent) => void;
@@ -64,32 +161,47 @@ export interface LiveClientEventTypes {
     toolcallCancellation: LiveServerToolCallCancellation
   ) => void;
   turncomplete: () => void;
+  inputtranscription: (transcription: Transcription) => void;
+  outputtranscription: (transcription: Transcription) => void;
   sessionresumptionupdate: (update: SessionResumptionUpdate) => void;
   goaway: (goAway: GoAway) => void;
   generationcomplete: () => void;
+  handover: () => void;
+  statechange: (state: ConnectionState, previous: ConnectionState) => void;
+  reconnectscheduled: (schedule: ReconnectSchedule) => void;
+  reconnectattempt: (attempt: number, maxAttempts: number) => void;
+  reconnectexhausted: (attempts: number) => void;
+  queuechange: (stats: OutboundQueueStats) => void;
+  usage: (snapshot: UsageSnapshot, usageMetadata: UsageMetadata) => void;
+  contextcompressed: (previousPromptTokens: number, promptTokens: number) => void;
 }
 
 export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
   private _sessionHandle: string | null = null;
   private _sessionResumable = false;
-  protected client: GoogleGenAI;
+  // resumption handles are stored per model and setup, see `sessionKey`
+  private _sessionKey: string | null = null;
+  private _sessionStore: SessionStore;
+  private _sessionMaxAge: number;
+  protected transport: LiveTransport;
+  private _vertexai: boolean;
   private _reconnectAttempts = 0;
-  private _reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
-  private _keepAliveInterval: ReturnType<typeof setTimeout> | null = null;
-  private _sessionStorage = new Map<string, string>();
-  
-  private readonly MAX_RECONNECT_ATTEMPTS = 5;
-  private readonly RECONNECT_CODES = new Set([
-    1005, // No Status Received
-    1006, // Abnormal Closure  
-    1011, // Server Error / Deadline Expired
-    1012, // Service Restart
-    1013, // Try Again Later
-    1014, // Bad Gateway
-  ]);
-  private readonly HEARTBEAT_INTERVAL = 25000; // 25s
-  private readonly RECONNECT_BASE_DELAY = 1000;
-  private readonly RECONNECT_MAX_DELAY = 30000;
+  private _reconnectTimeout: TimerHandle | null = null;
+  private _reconnectSchedule: ReconnectSchedule | null = null;
+  private _lastCloseCode: number | undefined;
+  private _keepAliveInterval: TimerHandle | null = null;
+  private _environment: LiveEnvironment;
+  private _timers: LiveTimers;
+
+  private _reconnectPolicy: ReconnectPolicy;
+  public get reconnectPolicy() {
+    return this._reconnectPolicy;
+  }
+
+  /** the pending reconnect attempt, if one is waiting on its backoff delay */
+  public get reconnectSchedule() {
+    return this._reconnectSchedule;
+  }
 
   private _model: string | null = null;
   public get model() {
@@ -102,60 +214,140 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     return this.config ? { ...this.config } : null;
   }
 
-  private _status: "connected" | "disconnected" | "connecting" = "disconnected";
-  public get status() {
-    return this._status;
+  private _state: ConnectionState = { status: "idle" };
+  public get state() {
+    return this._state;
+  }
+  public get status(): ConnectionStatus {
+    return this._state.status;
   }
 
-  private _session: Session | null = null;
+  private _session: LiveTransportSession | null = null;
   public get session() {
     return this._session;
   }
 
+  // socket callbacks carry the id of the connection they were created for,
+  // events from sockets that have since been replaced are ignored
+  private _connectionCounter = 0;
+  private _connectionId = 0;
+  private _handover: Handover | null = null;
+
+  /** function tools, merged into the config on connect and dispatched on toolcall */
+  public readonly tools: ToolRegistry;
+  // NON_BLOCKING functions of the current session
+  private _nonBlockingFunctions = new Set<string>();
+
+  /** realtime input waiting for a session, flushed on setupcomplete and handover */
+  public readonly outbound: OutboundQueue;
+
+  /** token counts from `usageMetadata`, reset on connect, kept across reconnects */
+  public readonly usageMeter: UsageMeter;
+  private _lastPromptTokens = 0;
+
+  /** timings of the session, reset on connect, see `LatencyMetric` */
+  public readonly latency = new LatencyMetrics();
+  // start times of the measurements in progress
+  private _setupStartedAt: number | null = null;
+  private _speechEndedAt: number | null = null;
+  // first model audio of the response in progress
+  private _responseAudioAt: number | null = null;
+  private _toolCallsAt = new Map<string, number>();
+
+  /** records the traffic of every session while on, see `ReplayTransport` */
+  public readonly recorder = new SessionRecorder();
+
+  private _middleware: MiddlewarePipeline;
+
   constructor(options: LiveClientOptions) {
     super();
-    try {
-      this._sessionHandle = this._getSessionHandle();
-    } catch (e) {
-      console.warn("Session handle initialization failed", e);
-      this._sessionHandle = null;
+    this._environment = options.environment ?? nodeEnvironment;
+    this._timers = this._environment.timers;
+    this._sessionStore =
+      typeof options.sessionStore === "object"
+        ? options.sessionStore
+        : this._environment.sessionStore(
+            options.sessionStore,
+            options.sessionNamespace
+          );
+    this._sessionMaxAge = options.sessionMaxAge ?? DEFAULT_SESSION_MAX_AGE;
+    this._reconnectPolicy = resolveReconnectPolicy(options.reconnectPolicy);
+    const onMiddlewareError = (error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log("client.middleware.error", `Message dropped: ${errorMessage}`);
+    };
+    this._middleware = new MiddlewarePipeline(onMiddlewareError);
+    // the recorder sits between the two directions of the pipeline, so
+    // recordings hold messages after the middleware ran, redacted ones
+    // included; a replay runs what it plays through the middleware again
+    this.transport = new MiddlewareTransport(
+      new RecordingTransport(
+        new MiddlewareTransport(
+          options.transport ?? new GenAILiveTransport(options),
+          this._middleware,
+          onMiddlewareError,
+          ["receive"]
+        ),
+        this.recorder
+      ),
+      this._middleware,
+      onMiddlewareError,
+      ["send"]
+    );
+    if (options.record) {
+      this.recorder.start();
     }
-    this.client = new GoogleGenAI(options);
+    this._vertexai = !!options.vertexai;
+    this.usageMeter = new UsageMeter(options.priceTable);
+    this.outbound = new OutboundQueue(options.outboundQueue);
+    this.outbound.on("change", (stats) => this.emit("queuechange", stats));
+    this.tools = new ToolRegistry({
+      sendToolResponse: (toolResponse) => this.sendToolResponse(toolResponse),
+      log: (type, message) => this.log(type, message),
+    });
     this.onopen = this.onopen.bind(this);
     this.onerror = this.onerror.bind(this);
     this.onclose = this.onclose.bind(this);
     this.onmessage = this.onmessage.bind(this);
   }
 
-  private _getSessionHandle(): string | null {
+  private async _loadSessionHandle(key: string): Promise<string | null> {
     try {
-      return localStorage.getItem('gemini_session_handle') || 
-             this._sessionStorage.get('gemini_session_handle') || 
-             null;
+      const stored = await this._sessionStore.get(key);
+      if (!stored) {
+        return null;
+      }
+      if (Date.now() - stored.updatedAt > this._sessionMaxAge) {
+        this.log("client.session.expired", "Stored session handle expired");
+        await this._sessionStore.delete(key);
+        return null;
+      }
+      return stored.handle;
     } catch (e) {
-      console.warn("Storage access failed, using memory fallback");
-      return this._sessionStorage.get('gemini_session_handle') || null;
+      console.warn("Session handle lookup failed", e);
+      return null;
     }
   }
 
   private _setSessionHandle(handle: string | null): void {
     this._sessionHandle = handle;
-    try {
-      if (handle) {
-        localStorage.setItem('gemini_session_handle', handle);
-        this._sessionStorage.set('gemini_session_handle', handle);
-      } else {
-        localStorage.removeItem('gemini_session_handle');
-        this._sessionStorage.delete('gemini_session_handle');
-      }
-    } catch (e) {
-      console.warn("Storage write failed, using memory fallback");
-      if (handle) {
-        this._sessionStorage.set('gemini_session_handle', handle);
-      } else {
-        this._sessionStorage.delete('gemini_session_handle');
-      }
+    const key = this._sessionKey;
+    if (!key) {
+      return;
     }
+    const write = handle
+      ? this._sessionStore.set(key, { handle, updatedAt: Date.now() })
+      : this._sessionStore.delete(key);
+    write.catch((e) => console.warn("Session handle write failed", e));
+  }
+
+  /**
+   * adds `middleware` to the messages of every session, after the middleware
+   * already in use; applies to everything sent and received from now on
+   * @returns a function that removes it again
+   */
+  use(middleware: LiveMiddleware): () => void {
+    return this._middleware.use(middleware);
   }
 
   protected log(type: string, message: StreamingLog["message"]) {
@@ -169,119 +361,398 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
 
   private _startKeepAlive() {
     this._stopKeepAlive();
-    this._keepAliveInterval = setInterval(() => {
-      try {
-        if (this._status === "connected" && this._session) {
-          this._session.sendClientContent({ turns: [], turnComplete: false });
+    this._keepAliveInterval = this._timers.setInterval(() => {
+      const session = this._session;
+      if (this._state.status !== "connected" || !session) {
+        return;
+      }
+      const outcome = this._deliver("client.keepalive", "heartbeat", () =>
+        session.sendClientContent({ turns: [], turnComplete: false })
+      );
+      whenSettled([outcome], ([outcome]) => {
+        if (outcome === "sent") {
           this.log("client.keepalive", "Sent heartbeat");
+        } else if (outcome === "failed") {
+          this._stopKeepAlive();
         }
-      } catch (error) {
-        this.log("client.keepalive.error", `Heartbeat failed: ${error instanceof Error ? error.message : String(error)}`);
-        this._stopKeepAlive();
-      }
-    }, this.HEARTBEAT_INTERVAL) as unknown as ReturnType<typeof setTimeout>;
+      });
+    }, this._reconnectPolicy.heartbeatInterval);
   }
 
   private _stopKeepAlive() {
     if (this._keepAliveInterval) {
-      clearInterval(this._keepAliveInterval);
+      this._timers.clearInterval(this._keepAliveInterval);
       this._keepAliveInterval = null;
     }
   }
 
-  async connect(model: string, config: LiveConnectConfig, isReconnect: boolean = false): Promise<boolean> {
-    if (this._status === "connecting" || (this._status === "connected" && !isReconnect)) {
-      this.log("client.connect.warn", `Already ${this._status}`);
+  // the server doesn't announce compression, it shows as a drop in prompt tokens
+  private _checkCompression(promptTokens: number) {
+    const previous = this._lastPromptTokens;
+    this._lastPromptTokens = promptTokens;
+    if (compressionDetected(previous, promptTokens)) {
+      this.log("server.contextCompression", `Context compressed from ${previous} to ${promptTokens} prompt tokens`);
+      this.emit("contextcompressed", previous, promptTokens);
+    }
+  }
+
+  private _setState(next: ConnectionState) {
+    const previous = this._state;
+    if (isEqual(previous, next)) {
+      return;
+    }
+    if (previous.status !== next.status && !canTransition(previous.status, next.status)) {
+      this.log("client.state.warn", `Unexpected transition ${previous.status} -> ${next.status}`);
+    }
+    this._state = next;
+    this.emit("statechange", next, previous);
+  }
+
+  /**
+   * @returns false when already active, or when the model is known not to
+   * support the config; the reason is on the `failed` state
+   */
+  async connect(model: string, config: LiveConnectConfig): Promise<boolean> {
+    if (isActive(this._state)) {
+      this.log("client.connect.warn", `Already ${this._state.status}`);
       return false;
     }
 
-    this._status = "connecting";
     this.config = { ...config };
     this._model = model;
+    this._reconnectAttempts = 0;
+    this.outbound.clear();
+    this.usageMeter.reset();
+    this._lastPromptTokens = 0;
+    this.latency.reset();
+    this._speechEndedAt = null;
+    this._responseAudioAt = null;
+    this._toolCallsAt.clear();
+    this._setState({ status: "connecting" });
+
+    // settings the model is known not to support would only fail at setup
+    const problems = validateLiveConfig(model, config);
+    if (problems.length) {
+      const reason = problems.join(", ");
+      this.log("client.connect.error", `Invalid config for ${model}: ${reason}`);
+      this._setState({ status: "failed", reason });
+      return false;
+    }
 
     try {
-      const enhancedConfig: LiveConnectConfig = {
-        ...this.config,
-        sessionResumption: this._sessionHandle ? {
-          handle: this._sessionHandle,
-        } : undefined,
-      };
-
-      this.log("client.connect", `Connecting to ${model} with session handle: ${this._sessionHandle || 'none'}`);
-      
-      this._session = await this.client.live.connect({
-        model,
-        config: enhancedConfig,
-        callbacks: {
-          onopen: this.onopen,
-          onmessage: this.onmessage,
-          onerror: this.onerror,
-          onclose: this.onclose
-        }
-      });
-      
+      await this._open();
       return true;
     } catch (error) {
-      this._status = "disconnected";
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log("client.connect.error", `Connection failed: ${errorMessage}`);
-      
-      if (!isReconnect) {
-        this._setSessionHandle(null);
-        this._sessionResumable = false;
+      this._setSessionHandle(null);
+      this._sessionResumable = false;
+      this.outbound.clear();
+      if (this._state.status === "connecting") {
+        this._setState({ status: "failed", reason: errorMessage });
       }
       throw error;
     }
   }
 
-  
+  /**
+   * opens a socket for the current model and config, shared by connect and
+   * the reconnect loop
+   */
+  private async _open() {
+    const model = this._model!;
+    const toolsConfig = this.tools.applyTo(this.config!);
+    this._nonBlockingFunctions = nonBlockingFunctionNames(toolsConfig);
+    const key = sessionKey(model, toolsConfig);
+    if (key !== this._sessionKey) {
+      // a different model or setup can't resume the previous session
+      this._sessionKey = key;
+      this._sessionHandle = await this._loadSessionHandle(key);
+      this._sessionResumable = !!this._sessionHandle;
+    }
 
-  private async _reconnect() {
-    if (this._status === "connected") return;
-    
-    this.log("client.reconnect", `Attempting reconnect (${this._reconnectAttempts + 1}/${this.MAX_RECONNECT_ATTEMPTS})`);
-    
-    if (this._reconnectTimeout) {
-      clearTimeout(this._reconnectTimeout);
-      this._reconnectTimeout = null;
+    this.log("client.connect", `Connecting to ${model} with session handle: ${this._sessionHandle || 'none'}`);
+
+    const connectionId = ++this._connectionCounter;
+    this._connectionId = connectionId;
+    this._setupStartedAt = Date.now();
+    const session = await this.transport.connect({
+      model,
+      config: this._resumableConfig(toolsConfig),
+      callbacks: this._callbacks(connectionId),
+    });
+    if (connectionId !== this._connectionId) {
+      // disconnected while the socket was opening
+      session.close();
+      return;
     }
+    this._session = session;
+  }
 
-    if (this._reconnectAttempts >= this.MAX_RECONNECT_ATTEMPTS) {
-      this._setSessionHandle(null);
-      this._reconnectAttempts = 0;
-      this.log("client.reconnect.failed", "Max reconnect attempts reached");
+  // always ask for resumption updates, resume when we hold a handle
+  private _resumableConfig(config: LiveConnectConfig): LiveConnectConfig {
+    return {
+      ...config,
+      sessionResumption: {
+        ...config.sessionResumption,
+        handle: this._sessionHandle || undefined,
+      },
+    };
+  }
+
+  private _callbacks(connectionId: number): LiveCallbacks {
+    const current = () => connectionId === this._connectionId;
+    return {
+      onopen: () => current() && this.onopen(),
+      onmessage: (message) => current() && this.onmessage(message),
+      onerror: (e) => current() && this.onerror(e),
+      onclose: (e) => current() && this.onclose(e),
+    };
+  }
+
+  /**
+   * Opens a replacement session with the latest resumption handle while the
+   * current one is still alive. Outbound traffic moves over, and the old
+   * session is closed, once the new one reports setupComplete, so there is no
+   * close / reconnect cycle and no gap in the audio.
+   */
+  private async _startHandover(goAway: GoAway) {
+    if (this._handover || !this._model || !this.config) {
       return;
     }
+    if (!this._sessionResumable || !this._sessionHandle) {
+      this.log("client.handover.skip", "Session is not resumable, waiting for the server to close");
+      return;
+    }
+
+    const timeLeft = parseTimeLeft(goAway.timeLeft);
+    // the current socket stays active until the handover completes
+    const handover: Handover = {
+      connectionId: ++this._connectionCounter,
+      session: null,
+      setupComplete: false,
+      deadline: null,
+    };
+    this._handover = handover;
+    this.log("client.handover", `Opening replacement session, ${timeLeft}ms left on the current one`);
+
+    // if the replacement isn't ready well after the old socket should be gone,
+    // give up and let the regular reconnect path take over
+    handover.deadline = this._timers.setTimeout(() => {
+      if (this._handover === handover) {
+        this._abortHandover("Replacement session did not complete setup in time");
+      }
+    }, timeLeft + 10000);
 
     try {
-      if (this._model && this.config) {
-        await this.connect(this._model, this.config, true);
-        this._reconnectAttempts = 0;
+      handover.session = await this.transport.connect({
+        model: this._model,
+        config: this._resumableConfig(this.tools.applyTo(this.config)),
+        callbacks: {
+          onmessage: (message) => {
+            if (this._handover !== handover) {
+              if (handover.connectionId === this._connectionId) {
+                this.onmessage(message);
+              }
+              return;
+            }
+            if (message.setupComplete) {
+              handover.setupComplete = true;
+              this._completeHandover(handover);
+            }
+          },
+          onerror: (e) => {
+            if (handover.connectionId === this._connectionId) {
+              this.onerror(e);
+            } else if (this._handover === handover) {
+              this.log("client.handover.error", `Replacement session error: ${e.message}`);
+            }
+          },
+          onclose: (e) => {
+            if (handover.connectionId === this._connectionId) {
+              this.onclose(e);
+            } else if (this._handover === handover) {
+              this._abortHandover(`Replacement session closed (code: ${e.code})`);
+            }
+          },
+        },
+      });
+      this._completeHandover(handover);
+    } catch (error) {
+      if (this._handover === handover) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this._abortHandover(`Replacement session failed: ${errorMessage}`);
       }
+    }
+  }
+
+  private _completeHandover(handover: Handover) {
+    if (this._handover !== handover || !handover.session || !handover.setupComplete) {
+      return;
+    }
+    if (handover.deadline) {
+      this._timers.clearTimeout(handover.deadline);
+    }
+    const previous = this._session;
+    this._handover = null;
+    this._connectionId = handover.connectionId;
+    this._session = handover.session;
+    this._startKeepAlive();
+
+    try {
+      previous?.close();
     } catch (error) {
-      this._reconnectAttempts++;
-      const baseDelay = Math.min(
-        this.RECONNECT_MAX_DELAY, 
-        this.RECONNECT_BASE_DELAY * Math.pow(2, this._reconnectAttempts - 1)
-      );
-      const jitter = Math.random() * 1000;
-      const delay = baseDelay + jitter;
-      
+      // the old socket may already be gone, which is fine
+    }
+    this.log("client.handover.complete", "Switched to the replacement session");
+    this._flushOutbound();
+    this.emit("handover");
+  }
+
+  private _abortHandover(reason: string) {
+    const handover = this._handover;
+    if (!handover) {
+      return;
+    }
+    this._handover = null;
+    if (handover.deadline) {
+      this._timers.clearTimeout(handover.deadline);
+    }
+    try {
+      handover.session?.close();
+    } catch (error) {
+      // ignore, we are discarding this session anyway
+    }
+    this.log("client.handover.failed", reason);
+
+    // the old socket went away while we were waiting, recover the usual way
+    if (!this._session && this._state.status === "connected") {
+      this.emit("close", this._environment.closeEvent("handover_failed", {
+        code: 1006,
+        reason,
+      }));
+      this._scheduleReconnect(0);
+    }
+  }
+
+  private _scheduleReconnect(delay: number) {
+    this._clearReconnectTimeout();
+    const { maxAttempts } = this._reconnectPolicy;
+    if (this._reconnectAttempts >= maxAttempts) {
+      this._giveUp();
+      return;
+    }
+
+    const attempt = this._reconnectAttempts + 1;
+    this._setState({ status: "reconnecting", attempt });
+    if (delay > 0) {
       this.log("client.reconnect.next", `Next attempt in ${Math.round(delay / 1000)}s`);
-      this._reconnectTimeout = setTimeout(() => {
-        this._reconnect();
-      }, delay) as unknown as ReturnType<typeof setTimeout>;
+    }
+    this._reconnectSchedule = { attempt, delay, at: Date.now() + delay };
+    this.emit("reconnectscheduled", this._reconnectSchedule);
+    this._reconnectTimeout = this._timers.setTimeout(() => {
+      this._reconnectTimeout = null;
+      this._reconnectSchedule = null;
+      this._reconnect();
+    }, delay);
+  }
+
+  private _clearReconnectTimeout() {
+    this._reconnectSchedule = null;
+    if (this._reconnectTimeout) {
+      this._timers.clearTimeout(this._reconnectTimeout);
+      this._reconnectTimeout = null;
+    }
+  }
+
+  private _giveUp() {
+    const attempts = this._reconnectAttempts;
+    this._setSessionHandle(null);
+    this._reconnectAttempts = 0;
+    this.outbound.clear();
+    this.log("client.reconnect.failed", `Giving up after ${attempts} reconnect attempts`);
+    this._setState({ status: "failed", reason: "Max reconnect attempts reached" });
+    this.emit("reconnectexhausted", attempts);
+    try {
+      this._reconnectPolicy.onGiveUp?.({ attempts, lastCloseCode: this._lastCloseCode });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log("client.reconnect.error", `onGiveUp failed: ${errorMessage}`);
     }
   }
 
+  /**
+   * The only place a dropped connection is re-established. Each attempt stays
+   * in the "reconnecting" state until setupComplete, a socket that closes
+   * before that counts as a failed attempt, see `onclose`.
+   */
+  private async _reconnect() {
+    if (this._state.status !== "reconnecting" || !this._model || !this.config) {
+      return;
+    }
+
+    const { maxAttempts } = this._reconnectPolicy;
+    this._reconnectAttempts++;
+    this._setState({ status: "reconnecting", attempt: this._reconnectAttempts });
+    this.log("client.reconnect", `Attempting reconnect (${this._reconnectAttempts}/${maxAttempts})`);
+    this.emit("reconnectattempt", this._reconnectAttempts, maxAttempts);
+
+    try {
+      await this._open();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log("client.reconnect.error", `Reconnect failed: ${errorMessage}`);
+      if (this._state.status === "reconnecting") {
+        this._scheduleReconnect(this._reconnectDelay());
+      }
+    }
+  }
+
+  private _reconnectDelay() {
+    return reconnectDelay(this._reconnectPolicy, this._reconnectAttempts);
+  }
+
+  /**
+   * Skips the backoff delay of a pending reconnect, or starts over after the
+   * client gave up. Returns false when there is nothing to retry.
+   */
+  public retryNow(): boolean {
+    if (this._state.status === "reconnecting" && this._reconnectTimeout) {
+      this.log("client.reconnect.retryNow", "Retrying without waiting");
+      this._clearReconnectTimeout();
+      this._reconnect();
+      return true;
+    }
+    if (this._state.status === "failed" && this._model && this.config) {
+      this.log("client.reconnect.retryNow", "Retrying after giving up");
+      this.connect(this._model, this.config).catch(() => {
+        // already logged and reflected in the "failed" state
+      });
+      return true;
+    }
+    return false;
+  }
+
   public disconnect() {
+    if (!isActive(this._state)) {
+      return true;
+    }
     this.log("client.disconnect", "Disconnect called");
+    this._setState({ status: "closing" });
     this._stopKeepAlive();
-    
-    if (this._reconnectTimeout) {
-      clearTimeout(this._reconnectTimeout);
-      this._reconnectTimeout = null;
+    this._clearReconnectTimeout();
+    this._reconnectAttempts = 0;
+    this.outbound.clear();
+    if (this._handover) {
+      const { session, deadline } = this._handover;
+      this._handover = null;
+      if (deadline) {
+        this._timers.clearTimeout(deadline);
+      }
+      session?.close();
     }
+    // stop listening to the socket we are about to close
+    this._connectionId = 0;
 
     if (this._session) {
       try {
@@ -294,21 +765,19 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
         this._session = null;
       }
     }
-    
-    if (this._status !== "disconnected") {
-      this._status = "disconnected";
-      this.emit("close", new CloseEvent("programmatic_disconnect", { 
-        code: 1000, 
-        reason: "Client initiated disconnect" 
-      }));
-    }
+
+    this.emit("close", this._environment.closeEvent("programmatic_disconnect", {
+      code: 1000,
+      reason: "Client initiated disconnect"
+    }));
+    this._setState({ status: "idle" });
     return true;
   }
 
   protected onopen() {
-    this._status = "connected";
-    this._reconnectAttempts = 0;
-    this._startKeepAlive();
+    if (this._state.status === "connecting") {
+      this._setState({ status: "awaiting-setup" });
+    }
     this.log("client.open", "Connection opened successfully");
     this.emit("open");
   }
@@ -320,38 +789,65 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
 
   protected onclose(e: CloseEvent) {
     this._stopKeepAlive();
-    const previousStatus = this._status;
-    this._status = "disconnected";
-    
+    if (this._handover) {
+      // the server dropped us before the replacement finished setting up,
+      // hold on without emitting close so media keeps flowing afterwards
+      this._session = null;
+      this.log("server.close", `Connection closed during handover. Code: ${e.code}, waiting for the replacement session`);
+      return;
+    }
+    const previous = this._state;
+    this._session = null;
+    this._connectionId = 0;
+    this._lastCloseCode = e.code;
+
     this.log("server.close", `Connection closed. Code: ${e.code}, Reason: "${e.reason || 'No reason'}", WasClean: ${e.wasClean}`);
     this.emit("close", e);
 
-    const shouldReconnect = this._shouldReconnectOnClose(e.code, previousStatus);
-    
-    if (shouldReconnect && (this._sessionHandle || this.config)) {
+    if (previous.status === "reconnecting") {
+      // the attempt's socket closed before setup completed
+      this._scheduleReconnect(this._reconnectDelay());
+      return;
+    }
+
+    if (this._shouldReconnectOnClose(e.code, e.reason, previous.status)) {
       this.log("client.reconnect.trigger", `Attempting reconnection after closure (code: ${e.code})`);
-      this._reconnect();
-    } else if (e.code === 1000 || e.code === 1001) {
+      this._scheduleReconnect(0);
+      return;
+    }
+
+    // not coming back, queued input has nowhere to go
+    this.outbound.clear();
+    if (e.code === 1000 || e.code === 1001) {
       this._setSessionHandle(null);
       this._sessionResumable = false;
       this.log("client.session.clear", "Session cleared after normal closure");
+      this._setState({ status: "idle" });
+    } else {
+      this._setState({
+        status: "failed",
+        reason: `Connection closed (code: ${e.code}${e.reason ? `, ${e.reason}` : ""})`,
+      });
     }
   }
 
-  private _shouldReconnectOnClose(code: number, previousStatus: string): boolean {
-    if (previousStatus === "connecting") {
+  private _shouldReconnectOnClose(code: number, reason: string, previousStatus: ConnectionStatus): boolean {
+    // never established, there is nothing to resume
+    if (previousStatus === "connecting" || previousStatus === "awaiting-setup") {
       return false;
     }
-    
-    if (this.RECONNECT_CODES.has(code)) {
-      return true;
-    }
-    
-    if (code === 1000 || code === 1001) {
-      return false;
+
+    const { reconnectCodes, shouldReconnect } = this._reconnectPolicy;
+    let decision: boolean;
+    if (reconnectCodes.includes(code)) {
+      decision = true;
+    } else if (code === 1000 || code === 1001) {
+      decision = false;
+    } else {
+      decision = !!(this._sessionHandle || (this.config && this._model));
     }
-    
-    return !!(this._sessionHandle || (this.config && this._model));
+
+    return shouldReconnect?.(code, reason, decision) ?? decision;
   }
 
   protected async onmessage(message: LiveServerMessage) {
@@ -380,38 +876,82 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       // Handle GoAway messages
       if (message['goAway']) {
         const goAway = message['goAway'] as unknown as GoAway;
-        this.log("server.goAway", `Connection will terminate in ${goAway.timeLeft}ms`);
+        this.log("server.goAway", `Connection will terminate in ${parseTimeLeft(goAway.timeLeft)}ms`);
         this.emit("goaway", goAway);
+        this._startHandover(goAway);
       }
 
 
       if (message.setupComplete) {
         this.log("server.setupComplete", message.setupComplete);
+        this._reconnectAttempts = 0;
+        if (this._setupStartedAt !== null) {
+          this.latency.record("setup", Date.now() - this._setupStartedAt);
+          this._setupStartedAt = null;
+        }
+        this._setState({ status: "connected" });
+        this._startKeepAlive();
+        this._flushOutbound();
         this.emit("setupcomplete");
       }
 
+      if (message.usageMetadata) {
+        this.usageMeter.record(message.usageMetadata);
+        this.log("server.usage", `${message.usageMetadata.totalTokenCount ?? 0} tokens`);
+        this.emit("usage", this.usageMeter.snapshot, message.usageMetadata);
+        this._checkCompression(message.usageMetadata.promptTokenCount || 0);
+      }
+
       if (message.toolCall) {
-        this.log("server.toolCall", message.toolCall);
+        // NON_BLOCKING calls run while the model keeps talking
+        const background = (message.toolCall.functionCalls || [])
+          .filter((fc) => this._nonBlockingFunctions.has(fc.name || ""))
+          .map((fc) => fc.id || fc.name || "");
+        for (const fc of message.toolCall.functionCalls || []) {
+          if (fc.id) {
+            this._toolCallsAt.set(fc.id, Date.now());
+          }
+        }
+        this.log("server.toolCall", { toolCall: message.toolCall, background });
         this.emit("toolcall", message.toolCall);
+        this.tools.dispatch(message.toolCall, this._nonBlockingFunctions);
         return;
       }
 
       if (message.toolCallCancellation) {
-        this.log("server.toolCallCancellation", message.toolCallCancellation);
+        this.log("server.toolCallCancellation", {
+          toolCallCancellation: message.toolCallCancellation,
+        });
         this.emit("toolcallcancellation", message.toolCallCancellation);
+        (message.toolCallCancellation.ids || []).forEach((id) => this._toolCallsAt.delete(id));
+        this.tools.cancel(message.toolCallCancellation.ids || []);
         return;
       }
 
       if (message.serverContent) {
         const { serverContent } = message;
         
+        if (serverContent.inputTranscription) {
+          this.log("server.inputTranscription", serverContent.inputTranscription.text || "");
+          this.emit("inputtranscription", serverContent.inputTranscription);
+        }
+
+        if (serverContent.outputTranscription) {
+          this.log("server.outputTranscription", serverContent.outputTranscription.text || "");
+          this.emit("outputtranscription", serverContent.outputTranscription);
+        }
+
         if (typeof serverContent.interrupted !== "undefined") {
           this.log("server.content.interrupted", `Interrupted: ${serverContent.interrupted}`);
+          this._responseAudioAt = null;
           this.emit("interrupted");
         }
         
         if (typeof serverContent.turnComplete !== "undefined") {
           this.log("server.content.turnComplete", `Turn complete: ${serverContent.turnComplete}`);
+          this.usageMeter.endTurn();
+          this._speechEndedAt = null;
+          this._responseAudioAt = null;
           this.emit("turncomplete");
         }
 
@@ -427,12 +967,23 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
           );
           const otherParts = difference(parts, audioParts);
 
+          // measured to the start of a response, speech marked while the
+          // model is talking only counts if it interrupts it
+          if (audioParts.length && this._responseAudioAt === null) {
+            this._responseAudioAt = Date.now();
+            if (this._speechEndedAt !== null) {
+              this.latency.record("speechToAudio", this._responseAudioAt - this._speechEndedAt);
+              this._speechEndedAt = null;
+            }
+          }
+
           audioParts.forEach((part) => {
             if (part.inlineData?.data) {
               try {
                 const data = base64ToArrayBuffer(part.inlineData.data);
-                this.emit("audio", data);
-                this.log("server.audio", `Received audio (${data.byteLength} bytes)`);
+                const format = parseAudioMimeType(part.inlineData.mimeType);
+                this.emit("audio", data, format);
+                this.log("server.audio", `Received audio (${data.byteLength} bytes, ${format.sampleRate} Hz)`);
               } catch (e) {
                 this.log("server.audio.error", `Failed to process audio: ${e instanceof Error ? e.message : String(e)}`);
               }
@@ -452,56 +1003,222 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     }
   }
 
-  sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
-    if (!this._session || this._status !== "connected") {
-      this.log("client.sendRealtimeInput.error", `Cannot send realtime input. Status: ${this._status}`);
+  /** streams a base64 PCM16 chunk, e.g. `audio/pcm;rate=16000` */
+  sendAudio(chunk: RealtimeChunk) {
+    this._sendRealtime([{ audio: chunk }]);
+  }
+
+  /** streams a single video frame, e.g. an `image/jpeg` */
+  sendVideo(frame: RealtimeChunk) {
+    this._sendRealtime([{ video: frame }]);
+  }
+
+  /** realtime text, unlike `send` it does not complete the user's turn */
+  sendText(text: string) {
+    this._sendRealtime([{ text }]);
+  }
+
+  /**
+   * tells the server the mic was muted or stopped so it can flush the audio
+   * it buffered for activity detection, only valid with automatic detection
+   */
+  sendAudioStreamEnd() {
+    if (this.manualActivityDetection) {
+      this.log("client.audioStreamEnd.skip", "Not sent, activity detection is manual");
       return;
     }
+    this._sendRealtime([{ audioStreamEnd: true }]);
+  }
 
-    let hasAudio = false;
-    let hasVideo = false;
-    
-    for (const chunk of chunks) {
-      try {
-        this._session.sendRealtimeInput({ media: chunk });
-        if (chunk.mimeType.includes("audio")) hasAudio = true;
-        if (chunk.mimeType.includes("image") || chunk.mimeType.includes("video")) hasVideo = true;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.log("client.sendRealtimeInput.exception", `Error sending chunk: ${errorMessage}`);
+  /**
+   * @deprecated use `sendAudio` / `sendVideo`, chunks are routed by mime type
+   */
+  sendRealtimeInput(chunks: RealtimeChunk[]) {
+    this._sendRealtime(
+      chunks.map((chunk) =>
+        chunk.mimeType.startsWith("audio/") ? { audio: chunk } : { video: chunk }
+      )
+    );
+  }
+
+  /**
+   * sends realtime input, or queues it while a session is being (re)established
+   * see `outbound`
+   */
+  private _sendRealtime(inputs: RealtimeInput[]) {
+    if (this._session && this._state.status === "connected") {
+      this._flushOutbound();
+      this._sendInputs(inputs);
+      return;
+    }
+    if (!isActive(this._state)) {
+      this.log("client.sendRealtimeInput.error", `Cannot send realtime input. Status: ${this._state.status}`);
+      return;
+    }
+    inputs.forEach((input) => this.outbound.enqueue(input));
+  }
+
+  private _flushOutbound() {
+    if (!this.outbound.length || !this._session) {
+      return;
+    }
+    const inputs = this.outbound.drain();
+    this.log("client.queue.flush", `Flushing ${inputs.length} queued input(s)`);
+    this._sendInputs(inputs);
+  }
+
+  private _sendInputs(inputs: RealtimeInput[]) {
+    const session = this._session;
+    if (!session) {
+      return;
+    }
+
+    const outcomes = inputs.map((input) =>
+      this._deliver("client.sendRealtimeInput", "realtime input", () =>
+        session.sendRealtimeInput(this._toSessionInput(input))
+      )
+    );
+    whenSettled(outcomes, (outcomes) => {
+      const delivered = inputs.filter((_, i) => outcomes[i] === "sent");
+      const sent = new Set(delivered.map((input) => Object.keys(input)[0]));
+      if (sent.has("audioStreamEnd")) {
+        this.markSpeechEnd();
+        this.log("client.audioStreamEnd", "Audio stream ended");
+        sent.delete("audioStreamEnd");
       }
+      if (sent.size > 0) {
+        this.log("client.realtimeInput.sent", `Sent ${delivered.length} ${Array.from(sent).join(" + ")} input(s)`);
+      }
+    });
+  }
+
+  /**
+   * sends through the session, logging a failure as `<type>.exception` and a
+   * message dropped by middleware as `<type>.dropped`
+   */
+  private _deliver(
+    type: string,
+    what: string,
+    send: () => SendResult,
+  ): SendOutcome | Promise<SendOutcome> {
+    const failed = (error: unknown): SendOutcome => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`${type}.exception`, `Error sending ${what}: ${errorMessage}`);
+      return "failed";
+    };
+    const dropped = (): SendOutcome => {
+      this.log(`${type}.dropped`, `Middleware dropped the ${what}`);
+      return "dropped";
+    };
+    try {
+      const result = send();
+      return result ? result.then((sent) => (sent ? "sent" : dropped()), failed) : "sent";
+    } catch (error) {
+      return failed(error);
     }
-    
-    if (chunks.length > 0) {
-      const type = hasAudio && hasVideo ? "audio + video" : hasAudio ? "audio" : hasVideo ? "video" : "data";
-      this.log("client.realtimeInput.sent", `Sent ${chunks.length} ${type} chunk(s)`);
+  }
+
+  // the SDK only accepts the deprecated `media` field for Vertex AI
+  private _toSessionInput(input: RealtimeInput): LiveSendRealtimeInputParameters {
+    if (this._vertexai && "audio" in input) {
+      return { media: input.audio };
+    }
+    if (this._vertexai && "video" in input) {
+      return { media: input.video };
+    }
+    return input;
+  }
+
+  /**
+   * whether the config turns off the server's voice activity detection, the
+   * client then marks speech with `sendActivityStart` / `sendActivityEnd`
+   */
+  get manualActivityDetection(): boolean {
+    return !!this.config?.realtimeInputConfig?.automaticActivityDetection?.disabled;
+  }
+
+  sendActivityStart() {
+    this._sendActivity("activityStart");
+  }
+
+  sendActivityEnd() {
+    this._sendActivity("activityEnd");
+  }
+
+  private _sendActivity(signal: "activityStart" | "activityEnd") {
+    if (!this._session || this._state.status !== "connected") {
+      this.log("client.activity.error", `Cannot send ${signal}. Status: ${this._state.status}`);
+      return;
+    }
+    if (!this.manualActivityDetection) {
+      this.log("client.activity.warn", `${signal} requires automatic activity detection to be disabled`);
+    }
+    // audio captured before the signal has to go out first
+    this._flushOutbound();
+    const session = this._session;
+    const outcome = this._deliver("client.activity", signal, () =>
+      session.sendRealtimeInput({ [signal]: {} })
+    );
+    whenSettled([outcome], ([outcome]) => {
+      if (outcome !== "sent") {
+        return;
+      }
+      if (signal === "activityEnd") {
+        this.markSpeechEnd();
+      }
+      this.log(`client.${signal}`, signal === "activityStart" ? "User started speaking" : "User stopped speaking");
+    });
+  }
+
+  /**
+   * starts the speechToAudio measurement, call it when a local voice activity
+   * detector sees the user stop talking; activityEnd and audioStreamEnd do so
+   * on their own
+   * @param at when speech ended; a detector only knows after some silence, by
+   * which time the response may have started, it is then measured right away
+   */
+  markSpeechEnd(at = Date.now()) {
+    if (this._responseAudioAt !== null && this._responseAudioAt >= at) {
+      this.latency.record("speechToAudio", this._responseAudioAt - at);
+      this._speechEndedAt = null;
+      return;
     }
+    this._speechEndedAt = at;
   }
 
   sendToolResponse(toolResponse: LiveClientToolResponse) {
-    if (!this._session || this._status !== "connected") {
-      this.log("client.sendToolResponse.error", `Cannot send tool response. Status: ${this._status}`);
+    if (!this._session || this._state.status !== "connected") {
+      this.log("client.sendToolResponse.error", `Cannot send tool response. Status: ${this._state.status}`);
       return;
     }
 
-    if (toolResponse.functionResponses?.length) {
-      try {
-        this._session.sendToolResponse({
-          functionResponses: toolResponse.functionResponses,
-        });
+    const { functionResponses } = toolResponse;
+    if (functionResponses?.length) {
+      const session = this._session;
+      const outcome = this._deliver("client.sendToolResponse", "tool response", () =>
+        session.sendToolResponse({ functionResponses })
+      );
+      whenSettled([outcome], ([outcome]) => {
+        if (outcome !== "sent") {
+          return;
+        }
         this.log("client.toolResponse.sent", toolResponse);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.log("client.sendToolResponse.exception", `Error sending tool response: ${errorMessage}`);
-      }
+        for (const { id } of functionResponses) {
+          const calledAt = id && this._toolCallsAt.get(id);
+          if (id && calledAt) {
+            this.latency.record("toolRoundTrip", Date.now() - calledAt);
+            this._toolCallsAt.delete(id);
+          }
+        }
+      });
     } else {
       this.log("client.sendToolResponse.warn", "No function responses provided");
     }
   }
 
   send(parts: Part | Part[], turnComplete: boolean = true) {
-    if (!this._session || this._status !== "connected") {
-      this.log("client.send.error", `Cannot send content. Status: ${this._status}`);
+    if (!this._session || this._state.status !== "connected") {
+      this.log("client.send.error", `Cannot send content. Status: ${this._state.status}`);
       return;
     }
     
@@ -511,26 +1228,29 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       return;
     }
 
-    try {
-      this._session.sendClientContent({ turns: [{ parts: partsArray }], turnComplete });
-      this.log("client.send.sent", { turns: [{ parts: partsArray }], turnComplete });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.log("client.send.exception", `Error sending content: ${errorMessage}`);
-    }
+    const session = this._session;
+    const content = { turns: [{ parts: partsArray }], turnComplete };
+    const outcome = this._deliver("client.send", "content", () =>
+      session.sendClientContent(content)
+    );
+    whenSettled([outcome], ([outcome]) => {
+      if (outcome === "sent") {
+        this.log("client.send.sent", content);
+      }
+    });
   }
 
   getSessionInfo() {
     return {
       handle: this._sessionHandle,
       resumable: this._sessionResumable,
-      status: this._status,
+      status: this._state.status,
       reconnectAttempts: this._reconnectAttempts,
     };
   }
 
   forceReconnect() {
-    if (this._status === "connected" && this._session) {
+    if (this._state.status === "connected" && this._session) {
       this.log("client.forceReconnect", "Forcing reconnection");
       this._session.close();
     }
@@ -545,6 +1265,6 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
   public destroy() {
     this.disconnect();
     this.removeAllListeners();
-    this._sessionStorage.clear();
+    this.tools.removeAllListeners();
   }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LatencyMetrics, percentile } from "./latency-metrics";
+import { SpeechEndDetector } from "./speech-end-detector";
+
+describe("percentile", () => {
+  const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+  test("picks the nearest rank", () => {
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 90)).toBe(90);
+    expect(percentile(sorted, 99)).toBe(100);
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile([7], 99)).toBe(7);
+  });
+
+  test("is 0 without samples", () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe("LatencyMetrics", () => {
+  test("summarizes the samples of each metric", () => {
+    const metrics = new LatencyMetrics();
+    const onChange = jest.fn();
+    metrics.on("change", onChange);
+    [300, 100, 200.4, -5].forEach((ms) => metrics.record("setup", ms));
+
+    expect(metrics.snapshot).toEqual({
+      setup: { count: 4, last: 0, p50: 100, p90: 300, p99: 300, max: 300 },
+    });
+    expect(onChange).toHaveBeenCalledTimes(4);
+  });
+
+  test("keeps the latest 500 samples and forgets them on reset", () => {
+    const metrics = new LatencyMetrics();
+    for (let ms = 1; ms <= 600; ms++) {
+      metrics.record("toolRoundTrip", ms);
+    }
+    const stats = metrics.snapshot.toolRoundTrip!;
+    expect(stats.count).toBe(500);
+    expect(stats.p50).toBe(350);
+    expect(stats.max).toBe(600);
+
+    metrics.reset();
+    expect(metrics.snapshot).toEqual({});
+  });
+});
+
+describe("SpeechEndDetector", () => {
+  // volume readings every 25ms, as the volume meter worklet posts them
+  const feed = (detector: SpeechEndDetector, volumes: number[], start = 0) =>
+    volumes
+      .map((volume, i) => detector.update(volume, start + i * 25))
+      .filter((endedAt) => endedAt !== null);
+
+  const speech = (ms: number) => Array(ms / 25).fill(0.1);
+  const silence = (ms: number) => Array(ms / 25).fill(0.001);
+
+  test("reports when speech ended once it has been quiet long enough", () => {
+    const detector = new SpeechEndDetector();
+    expect(feed(detector, [...silence(100), ...speech(400), ...silence(400)])).toEqual([]);
+    expect(feed(detector, silence(200), 900)).toEqual([500]);
+    // once only
+    expect(feed(detector, silence(1000), 1100)).toEqual([]);
+  });
+
+  test("ignores short bursts and pauses", () => {
+    const detector = new SpeechEndDetector();
+    expect(feed(detector, [...speech(100), ...silence(600)])).toEqual([]);
+    expect(
+      feed(detector, [...speech(300), ...silence(300), ...speech(300), ...silence(600)])
+    ).toEqual([900]);
+  });
+});
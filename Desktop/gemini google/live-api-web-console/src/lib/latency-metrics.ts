@@ -0,0 +1,113 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+
+/**
+ * - setup: connect (or reconnect) until `setupcomplete`
+ * - speechToAudio: end of user speech (activityEnd, audioStreamEnd or
+ *   `markSpeechEnd`, e.g. from `SpeechEndDetector`) until the first byte of
+ *   model audio
+ * - audioToPlayback: first byte of model audio until it is audible, as
+ *   scheduled by `AudioStreamer` including the output latency
+ * - toolRoundTrip: tool call until its response is sent
+ */
+export type LatencyMetric =
+  | "setup"
+  | "speechToAudio"
+  | "audioToPlayback"
+  | "toolRoundTrip";
+
+export const latencyMetrics: LatencyMetric[] = [
+  "setup",
+  "speechToAudio",
+  "audioToPlayback",
+  "toolRoundTrip",
+];
+
+/** in ms */
+export type LatencyStats = {
+  count: number;
+  last: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+};
+
+export type LatencySnapshot = Partial<Record<LatencyMetric, LatencyStats>>;
+
+export interface LatencyMetricsEventTypes {
+  change: (snapshot: LatencySnapshot) => void;
+}
+
+// samples kept per metric, older ones drop out of the percentiles
+const MAX_SAMPLES = 500;
+
+/**
+ * nearest-rank percentile of sorted `samples`, `p` between 0 and 100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const toStats = (samples: number[]): LatencyStats => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: samples.length,
+    last: samples[samples.length - 1],
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+/**
+ * Latency samples of a session, see `LatencyMetric` for what is measured.
+ */
+export class LatencyMetrics extends EventEmitter<LatencyMetricsEventTypes> {
+  private samples: Partial<Record<LatencyMetric, number[]>> = {};
+
+  get snapshot(): LatencySnapshot {
+    const snapshot: LatencySnapshot = {};
+    for (const metric of latencyMetrics) {
+      const samples = this.samples[metric];
+      if (samples?.length) {
+        snapshot[metric] = toStats(samples);
+      }
+    }
+    return snapshot;
+  }
+
+  record(metric: LatencyMetric, ms: number) {
+    const samples = (this.samples[metric] ||= []);
+    samples.push(Math.max(0, Math.round(ms)));
+    if (samples.length > MAX_SAMPLES) {
+      samples.shift();
+    }
+    this.emit("change", this.snapshot);
+  }
+
+  reset() {
+    this.samples = {};
+    this.emit("change", this.snapshot);
+  }
+}
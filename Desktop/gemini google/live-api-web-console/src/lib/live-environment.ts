@@ -0,0 +1,104 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createSessionStore,
+  MemorySessionStore,
+  SessionStore,
+  SessionStoreKind,
+} from "./session-store";
+
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+export interface LiveTimers {
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+export type CloseEventInit = { code: number; reason?: string; wasClean?: boolean };
+
+/**
+ * What `GenAILiveClient` needs from its host. The client itself touches no
+ * DOM API, so it runs in Node scripts and Jest given `nodeEnvironment` (or
+ * fake timers and an in-memory store), and in the browser given
+ * `browserEnvironment`. The client falls back to `nodeEnvironment`, so the
+ * page passes the browser adapter in (see `useLiveAPI`).
+ */
+export interface LiveEnvironment {
+  timers: LiveTimers;
+  /** where resumption handles go when `sessionStore` is a kind or not set */
+  sessionStore(kind: SessionStoreKind | undefined, namespace?: string): SessionStore;
+  /** builds the close events the client emits for closes it initiates */
+  closeEvent(type: string, init: CloseEventInit): CloseEvent;
+}
+
+/**
+ * a `CloseEvent`, or a plain object with the same fields where the DOM class
+ * doesn't exist
+ */
+export function createCloseEvent(type: string, init: CloseEventInit): CloseEvent {
+  if (typeof CloseEvent !== "undefined") {
+    return new CloseEvent(type, init);
+  }
+  return {
+    type,
+    code: init.code,
+    reason: init.reason || "",
+    wasClean: init.wasClean ?? false,
+  } as CloseEvent;
+}
+
+/**
+ * an `ErrorEvent`, or a plain object with the same fields where the DOM class
+ * doesn't exist
+ */
+export function createErrorEvent(message: string): ErrorEvent {
+  if (typeof ErrorEvent !== "undefined") {
+    return new ErrorEvent("error", { message });
+  }
+  return { type: "error", message } as ErrorEvent;
+}
+
+const globalTimers: LiveTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle),
+};
+
+/**
+ * Node, workers and tests: global timers, handles kept in memory unless a
+ * store is passed in
+ */
+export const nodeEnvironment: LiveEnvironment = {
+  timers: globalTimers,
+  sessionStore: (kind, namespace) =>
+    kind && kind !== "memory"
+      ? createSessionStore(kind, namespace)
+      : new MemorySessionStore(),
+  closeEvent: createCloseEvent,
+};
+
+/**
+ * the page: handles in localStorage by default, DOM events
+ */
+export const browserEnvironment: LiveEnvironment = {
+  timers: globalTimers,
+  sessionStore: (kind, namespace) => createSessionStore(kind || "local", namespace),
+  closeEvent: (type, init) => new CloseEvent(type, init),
+};
@@ -0,0 +1,210 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectParameters, LiveServerMessage } from "@google/genai";
+import {
+  LiveMiddleware,
+  MiddlewarePipeline,
+  MiddlewareTransport,
+  OutboundMessage,
+} from "./live-middleware";
+import { LiveTransport } from "./live-transport";
+
+const content = (value: string) => ({ turns: [{ parts: [{ text: value }] }] });
+
+const text = (value: string): OutboundMessage => ({ clientContent: content(value) });
+
+const textOf = (message: OutboundMessage | null) =>
+  message && "clientContent" in message
+    ? (message.clientContent.turns as { parts: { text: string }[] }[])[0]
+        .parts[0].text
+    : null;
+
+// appends `suffix` to the text, after waiting `delay` ms
+const append = (suffix: string, delay = 0): LiveMiddleware => ({
+  onSend: async (message) => {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return text(`${textOf(message)}${suffix}`);
+  },
+});
+
+describe("MiddlewarePipeline", () => {
+  test("runs middleware in registration order", async () => {
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(append(" a"));
+    pipeline.use(append(" b"));
+    pipeline.use({ onSend: () => {} });
+    expect(textOf(await pipeline.send(text("x")))).toBe("x a b");
+  });
+
+  test("drops a message when a middleware returns null", async () => {
+    const pipeline = new MiddlewarePipeline();
+    const later = jest.fn();
+    pipeline.use({ onSend: () => null });
+    pipeline.use({ onSend: later });
+    expect(await pipeline.send(text("x"))).toBeNull();
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  test("drops a message when a middleware throws", async () => {
+    const onError = jest.fn();
+    const pipeline = new MiddlewarePipeline(onError);
+    const failing: LiveMiddleware = {
+      onSend: () => {
+        throw new Error("redaction failed");
+      },
+      onReceive: () => {
+        throw new Error("redaction failed");
+      },
+    };
+    pipeline.use(failing);
+    await expect(pipeline.send(text("x"))).rejects.toThrow("redaction failed");
+    expect(await pipeline.receive({} as LiveServerMessage)).toBeNull();
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  test("removes middleware through the function use returns", async () => {
+    const pipeline = new MiddlewarePipeline();
+    const remove = pipeline.use(append(" a"));
+    expect(pipeline.length).toBe(1);
+    remove();
+    expect(pipeline.length).toBe(0);
+    expect(textOf(await pipeline.send(text("x")))).toBe("x");
+  });
+});
+
+// records what reaches the server side of a session
+function innerTransport() {
+  const sent: string[] = [];
+  const sendClientContent = jest.fn((params) => {
+    sent.push(textOf({ clientContent: params })!);
+  });
+  let callbacks: LiveConnectParameters["callbacks"] | null = null;
+  const transport: LiveTransport = {
+    connect: async (params) => {
+      callbacks = params.callbacks;
+      return {
+        sendClientContent,
+        sendRealtimeInput: jest.fn(),
+        sendToolResponse: jest.fn(),
+        close: jest.fn(),
+      };
+    },
+  };
+  return { transport, sent, sendClientContent, server: () => callbacks! };
+}
+
+const connectParams = (
+  onmessage: (message: LiveServerMessage) => void = () => {}
+): LiveConnectParameters => ({
+  model: "models/test",
+  callbacks: { onmessage },
+});
+
+describe("MiddlewareTransport", () => {
+  test("sends synchronously while no middleware is registered", async () => {
+    const inner = innerTransport();
+    const transport = new MiddlewareTransport(inner.transport, new MiddlewarePipeline());
+    const session = await transport.connect(connectParams());
+    expect(session.sendClientContent(content("x"))).toBeUndefined();
+    expect(inner.sent).toEqual(["x"]);
+  });
+
+  test("keeps the order when a slow middleware holds a message back", async () => {
+    const inner = innerTransport();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({
+      onSend: async (message) => {
+        // the first message takes longest
+        const delay = textOf(message) === "1" ? 30 : 0;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      },
+    });
+    const session = await new MiddlewareTransport(inner.transport, pipeline).connect(
+      connectParams()
+    );
+    const results = ["1", "2", "3"].map((value) =>
+      session.sendClientContent(content(value))
+    );
+    expect(await Promise.all(results)).toEqual([true, true, true]);
+    expect(inner.sent).toEqual(["1", "2", "3"]);
+  });
+
+  test("reports drops and failures to the sender", async () => {
+    const inner = innerTransport();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({ onSend: (message) => (textOf(message) === "drop" ? null : message) });
+    const session = await new MiddlewareTransport(inner.transport, pipeline).connect(
+      connectParams()
+    );
+    await expect(session.sendClientContent(content("drop"))).resolves.toBe(false);
+
+    inner.sendClientContent.mockImplementationOnce(() => {
+      throw new Error("socket closed");
+    });
+    await expect(session.sendClientContent(content("x"))).rejects.toThrow(
+      "socket closed"
+    );
+    // a failed send doesn't hold up the ones after it
+    await expect(session.sendClientContent(content("y"))).resolves.toBe(true);
+    expect(inner.sent).toEqual(["y"]);
+  });
+
+  test("drops messages still in the pipeline when the session closes", async () => {
+    const inner = innerTransport();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(append("", 10));
+    const session = await new MiddlewareTransport(inner.transport, pipeline).connect(
+      connectParams()
+    );
+    const pending = session.sendClientContent(content("x"));
+    session.close();
+    await expect(pending).resolves.toBe(false);
+    expect(inner.sent).toEqual([]);
+  });
+
+  test("runs received messages through the middleware in order", async () => {
+    const inner = innerTransport();
+    const pipeline = new MiddlewarePipeline();
+    const received: string[] = [];
+    pipeline.use({
+      onReceive: async (message) => {
+        const delay = message.setupComplete ? 20 : 0;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      },
+    });
+    await new MiddlewareTransport(inner.transport, pipeline).connect(
+      connectParams((message) =>
+        received.push(message.setupComplete ? "setup" : "content")
+      )
+    );
+    inner.server().onmessage({ setupComplete: {} } as LiveServerMessage);
+    inner.server().onmessage({ serverContent: {} } as LiveServerMessage);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toEqual(["setup", "content"]);
+  });
+
+  test("leaves a direction alone when it isn't listed", async () => {
+    const inner = innerTransport();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(append(" a"));
+    const session = await new MiddlewareTransport(inner.transport, pipeline, () => {}, [
+      "receive",
+    ]).connect(connectParams());
+    session.sendClientContent(content("x"));
+    expect(inner.sent).toEqual(["x"]);
+  });
+});
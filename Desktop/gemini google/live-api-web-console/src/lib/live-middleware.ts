@@ -0,0 +1,206 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from "@google/genai";
+import { LiveTransport, LiveTransportSession, SendResult } from "./live-transport";
+
+/** a message on its way to the server, keyed by the session method that sends it */
+export type OutboundMessage =
+  | { clientContent: LiveSendClientContentParameters }
+  | { realtimeInput: LiveSendRealtimeInputParameters }
+  | { toolResponse: LiveSendToolResponseParameters };
+
+export type MiddlewareDirection = "send" | "receive";
+
+/**
+ * what a middleware hook returns: the message to pass on (changed or not),
+ * null to drop it, or nothing to pass it on unchanged
+ */
+export type MiddlewareResult<T> = T | null | void | Promise<T | null | void>;
+
+/**
+ * Hooks into every message between `GenAILiveClient` and the server, e.g. to
+ * redact text, collect metrics, rewrite tool responses or inject context.
+ * Register with `client.use(middleware)`.
+ */
+export interface LiveMiddleware {
+  onSend?(message: OutboundMessage): MiddlewareResult<OutboundMessage>;
+  onReceive?(message: LiveServerMessage): MiddlewareResult<LiveServerMessage>;
+}
+
+/**
+ * Runs messages through the registered middleware in registration order, for
+ * both directions. A middleware that throws drops the message, so a failing
+ * redaction step can't leak what it was meant to remove: `send` rejects with
+ * the error, `receive` reports it to `onError`.
+ */
+export class MiddlewarePipeline {
+  private middleware: LiveMiddleware[] = [];
+
+  constructor(private onError: (error: unknown) => void = () => {}) {}
+
+  get length() {
+    return this.middleware.length;
+  }
+
+  /**
+   * adds `middleware` after the ones already registered
+   * @returns a function that removes it again
+   */
+  use(middleware: LiveMiddleware): () => void {
+    this.middleware = [...this.middleware, middleware];
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  send(message: OutboundMessage) {
+    return this.run(message, (m, message) => m.onSend?.(message));
+  }
+
+  receive(message: LiveServerMessage) {
+    return this.run(message, (m, message) => m.onReceive?.(message)).catch(
+      (error) => {
+        this.onError(error);
+        return null;
+      }
+    );
+  }
+
+  private async run<T>(
+    message: T,
+    hook: (middleware: LiveMiddleware, message: T) => MiddlewareResult<T>,
+  ): Promise<T | null> {
+    let current: T = message;
+    for (const middleware of this.middleware) {
+      const result: T | null | void = await hook(middleware, current);
+      if (result === null) {
+        return null;
+      }
+      current = result === undefined ? current : result;
+    }
+    return current;
+  }
+}
+
+/**
+ * Creates a function that passes messages through `process` to `deliver`, one
+ * after another. While nothing is pending and the pipeline is empty, messages
+ * are delivered synchronously, exactly as they would be without middleware.
+ * Otherwise it returns a promise of whether the message was delivered, which
+ * rejects when `process` or `deliver` throws.
+ */
+function serial<T>(
+  pipeline: MiddlewarePipeline,
+  process: (message: T) => Promise<T | null>,
+  deliver: (message: T) => boolean | void,
+): (message: T) => SendResult {
+  let pending = 0;
+  let tail: Promise<unknown> = Promise.resolve();
+  return (message: T) => {
+    if (!pending && !pipeline.length) {
+      deliver(message);
+      return;
+    }
+    pending++;
+    const delivered = tail
+      .then(() => process(message))
+      .then((processed) => !!processed && deliver(processed) !== false);
+    tail = delivered
+      .catch(() => {})
+      .finally(() => {
+        pending--;
+      });
+    return delivered;
+  };
+}
+
+/**
+ * Wraps another transport and runs the messages of its sessions through
+ * `pipeline`, keeping the order of messages in each direction. `directions`
+ * limits it to one side, so something can sit between the pipeline and the
+ * server for one direction only, see `GenAILiveClient`.
+ */
+export class MiddlewareTransport implements LiveTransport {
+  constructor(
+    private inner: LiveTransport,
+    private pipeline: MiddlewarePipeline,
+    private onError: (error: unknown) => void = () => {},
+    private directions: MiddlewareDirection[] = ["send", "receive"],
+  ) {}
+
+  async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    const { pipeline, onError, directions } = this;
+    const { callbacks } = params;
+    let closed = false;
+
+    const receive = serial(
+      pipeline,
+      (message: LiveServerMessage) => pipeline.receive(message),
+      (message) => callbacks.onmessage(message),
+    );
+    const onmessage = (message: LiveServerMessage) => {
+      receive(message)?.catch(onError);
+    };
+    const session = await this.inner.connect(
+      directions.includes("receive")
+        ? { ...params, callbacks: { ...callbacks, onmessage } }
+        : params
+    );
+    if (!directions.includes("send")) {
+      return {
+        sendClientContent: (clientContent) => session.sendClientContent(clientContent),
+        sendRealtimeInput: (realtimeInput) => session.sendRealtimeInput(realtimeInput),
+        sendToolResponse: (toolResponse) => session.sendToolResponse(toolResponse),
+        close: () => session.close(),
+      };
+    }
+
+    const send = serial(
+      pipeline,
+      (message: OutboundMessage) => pipeline.send(message),
+      (message) => {
+        // messages still in the pipeline when the session closed are dropped
+        if (closed) {
+          return false;
+        }
+        if ("clientContent" in message) {
+          session.sendClientContent(message.clientContent);
+        } else if ("realtimeInput" in message) {
+          session.sendRealtimeInput(message.realtimeInput);
+        } else {
+          session.sendToolResponse(message.toolResponse);
+        }
+      },
+    );
+
+    return {
+      sendClientContent: (clientContent) => send({ clientContent }),
+      sendRealtimeInput: (realtimeInput) => send({ realtimeInput }),
+      sendToolResponse: (toolResponse) => send({ toolResponse }),
+      close: () => {
+        closed = true;
+        session.close();
+      },
+    };
+  }
+}
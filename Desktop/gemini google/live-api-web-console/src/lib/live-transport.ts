@@ -0,0 +1,122 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  GoogleGenAI,
+  GoogleGenAIOptions,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from "@google/genai";
+import { AuthTokenCache, AuthTokenProvider } from "./auth-token";
+
+/**
+ * nothing when the message went out right away, otherwise a promise that
+ * resolves to whether it went out (false when it was dropped on the way) and
+ * rejects when sending failed, see `MiddlewareTransport`
+ */
+export type SendResult = void | Promise<boolean>;
+
+/**
+ * An open connection to a Live API endpoint.
+ * `Session` from @google/genai satisfies this interface as-is.
+ */
+export interface LiveTransportSession {
+  sendClientContent(params: LiveSendClientContentParameters): SendResult;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): SendResult;
+  sendToolResponse(params: LiveSendToolResponseParameters): SendResult;
+  close(): void;
+}
+
+/**
+ * Opens sessions for `GenAILiveClient`. Swap the transport to point the
+ * client at something other than the hosted Live API, e.g. a local mock server
+ * or a scripted in-memory stand-in for tests.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession>;
+}
+
+export type GenAILiveTransportOptions = GoogleGenAIOptions & {
+  /** fetches an ephemeral token for every new session instead of using `apiKey` */
+  authToken?: AuthTokenProvider;
+};
+
+// ephemeral tokens are only accepted by the v1alpha endpoint
+const AUTH_TOKEN_API_VERSION = "v1alpha";
+
+/**
+ * the full Vertex AI resource name of a model, e.g. `models/gemini-2.0-flash`
+ * in us-central1 becomes
+ * `projects/p/locations/us-central1/publishers/google/models/gemini-2.0-flash`
+ */
+export function vertexModelName(model: string, project: string, location: string) {
+  if (model.startsWith("projects/")) {
+    return model;
+  }
+  const publisherModel = model.startsWith("publishers/")
+    ? model
+    : `publishers/google/models/${model.replace(/^models\//, "")}`;
+  return `projects/${project}/locations/${location}/${publisherModel}`;
+}
+
+/**
+ * default transport, connects through the @google/genai SDK
+ * set `httpOptions.baseUrl` to target a local server such as `npm run mock-server`
+ *
+ * The SDK client is created on first connect, so missing credentials show up
+ * as a failed connection rather than an error at startup. The browser SDK
+ * rejects a Vertex AI `project` and `location`, they are folded into the model
+ * name instead.
+ */
+export class GenAILiveTransport implements LiveTransport {
+  protected client: GoogleGenAI | null = null;
+  private options: GoogleGenAIOptions;
+  private tokens: AuthTokenCache | null;
+  private vertexLocation: { project: string; location: string } | null;
+
+  constructor({ authToken, project, location, ...options }: GenAILiveTransportOptions) {
+    this.options = options;
+    this.tokens = authToken ? new AuthTokenCache(authToken) : null;
+    this.vertexLocation =
+      options.vertexai && project && location ? { project, location } : null;
+  }
+
+  async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    if (this.vertexLocation) {
+      const { project, location } = this.vertexLocation;
+      params = { ...params, model: vertexModelName(params.model, project, location) };
+    }
+    if (!this.tokens) {
+      if (!this.options.apiKey && !this.options.vertexai) {
+        throw new Error("No credentials, set apiKey or authToken");
+      }
+      this.client ||= new GoogleGenAI(this.options);
+      return this.client.live.connect(params);
+    }
+    // a token opens a limited number of sessions, so each one gets its own client
+    const client = new GoogleGenAI({
+      ...this.options,
+      apiKey: await this.tokens.take(),
+      httpOptions: {
+        apiVersion: AUTH_TOKEN_API_VERSION,
+        ...this.options.httpOptions,
+      },
+    });
+    return client.live.connect(params);
+  }
+}
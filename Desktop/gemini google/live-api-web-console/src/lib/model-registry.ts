@@ -0,0 +1,189 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig, Modality } from "@google/genai";
+
+export type LiveModelCapabilities = {
+  /** generates speech directly rather than speaking generated text */
+  nativeAudio: boolean;
+  /** can answer with `Modality.TEXT` */
+  textOutput: boolean;
+  /** prebuilt voices for `speechConfig` */
+  voices: string[];
+  /** input and output audio transcription */
+  transcription: boolean;
+  /** `enableAffectiveDialog` */
+  affectiveDialog: boolean;
+  /** `proactivity.proactiveAudio` */
+  proactiveAudio: boolean;
+  /** accepts video frames as realtime input */
+  video: boolean;
+  /** tokens of context before the session has to compress or end */
+  contextWindow: number;
+};
+
+export type LiveModel = LiveModelCapabilities & {
+  name: string;
+  label: string;
+};
+
+const HALF_CASCADE_VOICES = [
+  "Puck",
+  "Charon",
+  "Kore",
+  "Fenrir",
+  "Aoede",
+  "Leda",
+  "Orus",
+  "Zephyr",
+];
+
+const NATIVE_AUDIO_VOICES = [
+  ...HALF_CASCADE_VOICES,
+  "Callirrhoe",
+  "Autonoe",
+  "Enceladus",
+  "Iapetus",
+  "Umbriel",
+  "Algieba",
+  "Despina",
+  "Erinome",
+  "Algenib",
+  "Rasalgethi",
+  "Laomedeia",
+  "Achernar",
+  "Alnilam",
+  "Schedar",
+  "Gacrux",
+  "Pulcherrima",
+  "Achird",
+  "Zubenelgenubi",
+  "Vindemiatrix",
+  "Sadachbia",
+  "Sadaltager",
+  "Sulafat",
+];
+
+// half-cascade models understand audio natively but speak through TTS, so they
+// can answer in text as well
+const halfCascade: LiveModelCapabilities = {
+  nativeAudio: false,
+  textOutput: true,
+  voices: HALF_CASCADE_VOICES,
+  transcription: true,
+  affectiveDialog: false,
+  proactiveAudio: false,
+  video: true,
+  contextWindow: 32768,
+};
+
+const nativeAudio: LiveModelCapabilities = {
+  nativeAudio: true,
+  textOutput: false,
+  voices: NATIVE_AUDIO_VOICES,
+  transcription: true,
+  affectiveDialog: true,
+  proactiveAudio: true,
+  video: true,
+  contextWindow: 131072,
+};
+
+export const LIVE_MODELS: LiveModel[] = [
+  {
+    name: "models/gemini-2.0-flash-exp",
+    label: "Gemini 2.0 Flash (experimental)",
+    ...halfCascade,
+  },
+  {
+    name: "models/gemini-2.0-flash-live-001",
+    label: "Gemini 2.0 Flash Live",
+    ...halfCascade,
+  },
+  {
+    name: "models/gemini-live-2.5-flash-preview",
+    label: "Gemini 2.5 Flash Live (preview)",
+    ...halfCascade,
+  },
+  {
+    name: "models/gemini-2.5-flash-preview-native-audio-dialog",
+    label: "Gemini 2.5 Flash native audio (preview)",
+    ...nativeAudio,
+  },
+  {
+    name: "models/gemini-2.5-flash-exp-native-audio-thinking-dialog",
+    label: "Gemini 2.5 Flash native audio thinking (experimental)",
+    ...nativeAudio,
+    affectiveDialog: false,
+    proactiveAudio: false,
+  },
+];
+
+export const DEFAULT_LIVE_MODEL = LIVE_MODELS[0].name;
+
+/**
+ * the registry entry for `name`, with or without the `models/` prefix or as a
+ * Vertex AI resource name; undefined for models the registry doesn't know,
+ * which are not validated
+ */
+export function findLiveModel(name: string): LiveModel | undefined {
+  const index = name.lastIndexOf("models/");
+  const full = index === -1 ? `models/${name}` : name.slice(index);
+  return LIVE_MODELS.find((m) => m.name === full);
+}
+
+/**
+ * the voices to offer for `model`, every known voice for unknown models
+ */
+export function voicesFor(model: string): string[] {
+  return findLiveModel(model)?.voices || NATIVE_AUDIO_VOICES;
+}
+
+/**
+ * settings in `config` that `model` doesn't support, as messages for the user
+ */
+export function validateLiveConfig(
+  model: string,
+  config: LiveConnectConfig,
+): string[] {
+  const capabilities = findLiveModel(model);
+  if (!capabilities) {
+    return [];
+  }
+  const problems: string[] = [];
+  if (
+    !capabilities.textOutput &&
+    config.responseModalities?.includes(Modality.TEXT)
+  ) {
+    problems.push("Text responses are not available on native audio models");
+  }
+  const voice = config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+  if (voice && !capabilities.voices.includes(voice)) {
+    problems.push(`Voice ${voice} is not available on this model`);
+  }
+  if (
+    !capabilities.transcription &&
+    (config.inputAudioTranscription || config.outputAudioTranscription)
+  ) {
+    problems.push("Audio transcription is not available on this model");
+  }
+  if (!capabilities.affectiveDialog && config.enableAffectiveDialog) {
+    problems.push("Affective dialog is not available on this model");
+  }
+  if (!capabilities.proactiveAudio && config.proactivity?.proactiveAudio) {
+    problems.push("Proactive audio is not available on this model");
+  }
+  return problems;
+}
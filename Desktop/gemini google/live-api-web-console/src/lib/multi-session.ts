@@ -0,0 +1,171 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig, Part } from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import { LiveClientOptions, StreamingLog } from "../types/types";
+import { isActive } from "./connection-state";
+import { GenAILiveClient } from "./genai-live-client";
+import { RealtimeChunk } from "./outbound-queue";
+import { DEFAULT_SESSION_NAMESPACE } from "./session-store";
+import { createLoggerStore, LoggerStore } from "./store-logger";
+
+/**
+ * one of the sessions being compared, each with its own client and log
+ */
+export type SessionSlot = {
+  id: string;
+  label: string;
+  model: string;
+  config: LiveConnectConfig;
+  client: GenAILiveClient;
+  logs: LoggerStore;
+};
+
+export type SessionSlotSettings = Pick<SessionSlot, "label" | "model" | "config">;
+
+export interface MultiSessionEventTypes {
+  /** a session was added, removed or its settings changed */
+  change: (slots: SessionSlot[]) => void;
+}
+
+let slotCounter = 0;
+
+/**
+ * Runs several live sessions side by side, e.g. to compare models or configs
+ * against the same input. Realtime input and text are fanned out to every
+ * session, each session keeps its own connection state and log.
+ *
+ * Every client gets its own session namespace so two sessions with the same
+ * model and config don't resume each other's handles.
+ */
+export class MultiSessionManager extends EventEmitter<MultiSessionEventTypes> {
+  private _slots: SessionSlot[] = [];
+  private _logListeners = new Map<string, (log: StreamingLog) => void>();
+
+  constructor(private options: LiveClientOptions) {
+    super();
+  }
+
+  get slots(): SessionSlot[] {
+    return this._slots;
+  }
+
+  get(id: string) {
+    return this._slots.find((slot) => slot.id === id);
+  }
+
+  add({ label, model, config }: Partial<SessionSlotSettings> & { model: string }) {
+    const id = `session-${++slotCounter}`;
+    const namespace = this.options.sessionNamespace || DEFAULT_SESSION_NAMESPACE;
+    const client = new GenAILiveClient({
+      ...this.options,
+      sessionNamespace: `${namespace}:${id}`,
+    });
+    const logs = createLoggerStore();
+    const onLog = logs.getState().log;
+    client.on("log", onLog);
+    this._logListeners.set(id, onLog);
+
+    const slot: SessionSlot = {
+      id,
+      label: label || `Session ${slotCounter}`,
+      model,
+      config: config || {},
+      client,
+      logs,
+    };
+    this._slots = [...this._slots, slot];
+    this.emit("change", this._slots);
+    return slot;
+  }
+
+  remove(id: string) {
+    const slot = this.get(id);
+    if (!slot) {
+      return;
+    }
+    slot.client.disconnect();
+    const onLog = this._logListeners.get(id);
+    if (onLog) {
+      slot.client.off("log", onLog);
+      this._logListeners.delete(id);
+    }
+    this._slots = this._slots.filter((s) => s.id !== id);
+    this.emit("change", this._slots);
+  }
+
+  /**
+   * changes apply the next time the session connects
+   */
+  update(id: string, changes: Partial<SessionSlotSettings>) {
+    this._slots = this._slots.map((slot) =>
+      slot.id === id ? { ...slot, ...changes } : slot
+    );
+    this.emit("change", this._slots);
+  }
+
+  async connect(id: string): Promise<boolean> {
+    const slot = this.get(id);
+    if (!slot) {
+      return false;
+    }
+    await slot.client.disconnect();
+    return slot.client.connect(slot.model, slot.config);
+  }
+
+  /**
+   * connects every session at once, one failing doesn't hold back the others
+   */
+  async connectAll(): Promise<boolean[]> {
+    const results = await Promise.allSettled(
+      this._slots.map((slot) => this.connect(slot.id))
+    );
+    return results.map((r) => r.status === "fulfilled" && r.value);
+  }
+
+  disconnectAll() {
+    this._slots.forEach((slot) => slot.client.disconnect());
+  }
+
+  sendAudio(chunk: RealtimeChunk) {
+    this.activeClients().forEach((client) => client.sendAudio(chunk));
+  }
+
+  sendVideo(frame: RealtimeChunk) {
+    this.activeClients().forEach((client) => client.sendVideo(frame));
+  }
+
+  sendAudioStreamEnd() {
+    this.activeClients().forEach((client) => client.sendAudioStreamEnd());
+  }
+
+  send(parts: Part | Part[], turnComplete: boolean = true) {
+    this._slots.forEach((slot) => slot.client.send(parts, turnComplete));
+  }
+
+  // realtime input only goes to sessions that are connected or reconnecting
+  private activeClients() {
+    return this._slots
+      .map((slot) => slot.client)
+      .filter((client) => isActive(client.state));
+  }
+
+  dispose() {
+    [...this._slots].forEach((slot) => this.remove(slot.id));
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  OutboundQueue,
+  pcmChunkDuration,
+  RealtimeChunk,
+  RealtimeInput,
+} from "./outbound-queue";
+
+// base64 of `ms` milliseconds of 16-bit silence
+function pcm(ms: number, rate = 16000, channels = 1): RealtimeChunk {
+  const bytes = (rate * channels * 2 * ms) / 1000;
+  return {
+    mimeType: `audio/pcm;rate=${rate}${channels > 1 ? `;channels=${channels}` : ""}`,
+    data: Buffer.alloc(bytes).toString("base64"),
+  };
+}
+
+const frame = (data: string): RealtimeInput => ({
+  video: { mimeType: "image/jpeg", data },
+});
+
+describe("pcmChunkDuration", () => {
+  test("follows the rate and channels of the mime type", () => {
+    expect(pcmChunkDuration(pcm(100))).toBeCloseTo(100);
+    expect(pcmChunkDuration(pcm(40, 24000))).toBeCloseTo(40);
+    expect(pcmChunkDuration(pcm(20, 48000, 2))).toBeCloseTo(20);
+  });
+
+  test("subtracts base64 padding", () => {
+    // 2 and 4 bytes encode as "AAA=" and "AAAAAA==", one and two samples
+    const mimeType = "audio/pcm;rate=16000";
+    expect(pcmChunkDuration({ mimeType, data: "AAA=" })).toBeCloseTo(1 / 16);
+    expect(pcmChunkDuration({ mimeType, data: "AAAAAA==" })).toBeCloseTo(2 / 16);
+  });
+
+  test("assumes the default input format without a rate", () => {
+    expect(
+      pcmChunkDuration({ mimeType: "audio/pcm", data: pcm(100).data })
+    ).toBeCloseTo(100);
+  });
+});
+
+describe("OutboundQueue", () => {
+  test("drains in the original order across modalities", () => {
+    const queue = new OutboundQueue();
+    const audio = { audio: pcm(20) };
+    const video = frame("f1");
+    const text = { text: "hi" };
+    queue.enqueue(audio);
+    queue.enqueue(video);
+    queue.enqueue(text);
+    expect(queue.drain()).toEqual([audio, video, text]);
+    expect(queue.length).toBe(0);
+  });
+
+  test("keeps the most recent audio window, dropping the oldest chunks", () => {
+    const queue = new OutboundQueue({
+      audio: { kind: "window", maxDurationMs: 250 },
+    });
+    const chunks = [1, 2, 3, 4].map(() => ({ audio: pcm(100) }));
+    chunks.forEach((chunk) => queue.enqueue(chunk));
+    // 400 ms queued, the two oldest chunks go to get back to the window
+    expect(queue.stats.droppedByModality.audio).toBe(2);
+    expect(queue.drain()).toEqual(chunks.slice(2));
+  });
+
+  test("keeps only the latest video frame", () => {
+    const queue = new OutboundQueue();
+    const text = { text: "hi" };
+    queue.enqueue(frame("f1"));
+    queue.enqueue(text);
+    queue.enqueue(frame("f2"));
+    queue.enqueue(frame("f3"));
+    expect(queue.drain()).toEqual([text, frame("f3")]);
+  });
+
+  test("bounds other input to the newest items", () => {
+    const queue = new OutboundQueue({ other: { kind: "bounded", maxItems: 2 } });
+    ["a", "b", "c"].forEach((text) => queue.enqueue({ text }));
+    queue.enqueue({ audioStreamEnd: true });
+    expect(queue.drain()).toEqual([{ text: "c" }, { audioStreamEnd: true }]);
+  });
+
+  test("evicts only the modality over its bound", () => {
+    const queue = new OutboundQueue({
+      audio: { kind: "window", maxDurationMs: 100 },
+    });
+    const first = { audio: pcm(100) };
+    const second = { audio: pcm(100) };
+    queue.enqueue(first);
+    queue.enqueue(frame("f1"));
+    queue.enqueue(second);
+    expect(queue.drain()).toEqual([frame("f1"), second]);
+  });
+
+  test("counts drops per modality and resets them on clear", () => {
+    const queue = new OutboundQueue({ video: { kind: "drop" } });
+    const change = jest.fn();
+    queue.on("change", change);
+    queue.enqueue(frame("f1"));
+    queue.enqueue(frame("f2"));
+    queue.enqueue({ text: "hi" });
+    expect(queue.stats).toEqual({
+      depth: 1,
+      depthByModality: { audio: 0, video: 0, other: 1 },
+      dropped: 2,
+      droppedByModality: { audio: 0, video: 2, other: 0 },
+    });
+    expect(change).toHaveBeenCalledTimes(3);
+
+    queue.clear();
+    expect(queue.stats.depth).toBe(0);
+    expect(queue.stats.dropped).toBe(0);
+    expect(change).toHaveBeenCalledTimes(4);
+    // nothing left to report
+    queue.clear();
+    queue.drain();
+    expect(change).toHaveBeenCalledTimes(4);
+  });
+});
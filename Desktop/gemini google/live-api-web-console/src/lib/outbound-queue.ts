@@ -0,0 +1,226 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import { DEFAULT_INPUT_FORMAT, parseAudioMimeType } from "./audio-format";
+
+export type RealtimeChunk = { mimeType: string; data: string };
+
+/**
+ * one message of realtime input, mirrors the fields of
+ * `LiveSendRealtimeInputParameters`
+ */
+export type RealtimeInput =
+  | { audio: RealtimeChunk }
+  | { video: RealtimeChunk }
+  | { text: string }
+  | { audioStreamEnd: true };
+
+export type QueueModality = "audio" | "video" | "other";
+
+/**
+ * what to keep of a modality while there is no session to send to
+ * - window: the most recent `maxDurationMs` of PCM audio
+ * - latest: only the newest chunk, e.g. a video frame
+ * - bounded: the newest `maxItems` chunks
+ * - drop: nothing
+ */
+export type ModalityQueuePolicy =
+  | { kind: "window"; maxDurationMs: number }
+  | { kind: "latest" }
+  | { kind: "bounded"; maxItems: number }
+  | { kind: "drop" };
+
+export type OutboundQueuePolicy = Record<QueueModality, ModalityQueuePolicy>;
+
+export const DEFAULT_OUTBOUND_QUEUE_POLICY: OutboundQueuePolicy = {
+  audio: { kind: "window", maxDurationMs: 5000 },
+  video: { kind: "latest" },
+  other: { kind: "bounded", maxItems: 50 },
+};
+
+export type OutboundQueueStats = {
+  depth: number;
+  depthByModality: Record<QueueModality, number>;
+  /** chunks dropped since the queue was created or last cleared */
+  dropped: number;
+  droppedByModality: Record<QueueModality, number>;
+};
+
+export interface OutboundQueueEventTypes {
+  change: (stats: OutboundQueueStats) => void;
+}
+
+type QueuedInput = {
+  modality: QueueModality;
+  input: RealtimeInput;
+  durationMs: number;
+};
+
+const emptyCounts = (): Record<QueueModality, number> => ({
+  audio: 0,
+  video: 0,
+  other: 0,
+});
+
+export function inputModality(input: RealtimeInput): QueueModality {
+  if ("audio" in input) {
+    return "audio";
+  }
+  if ("video" in input) {
+    return "video";
+  }
+  return "other";
+}
+
+/**
+ * playback length of a base64 PCM16 chunk, the rate comes from the mime type
+ * (`audio/pcm;rate=16000`)
+ */
+export function pcmChunkDuration(chunk: RealtimeChunk): number {
+  const { sampleRate, channels } = parseAudioMimeType(
+    chunk.mimeType,
+    DEFAULT_INPUT_FORMAT
+  );
+  const padding = chunk.data.endsWith("==")
+    ? 2
+    : chunk.data.endsWith("=")
+      ? 1
+      : 0;
+  const bytes = (chunk.data.length * 3) / 4 - padding;
+  return (bytes / 2 / channels / sampleRate) * 1000;
+}
+
+/**
+ * Holds realtime input while the client has no session to send it to, e.g.
+ * during a reconnect, and hands it back in the original order once the
+ * session is ready. Each modality is bounded by its own policy, chunks that
+ * fall out are counted as dropped.
+ */
+export class OutboundQueue extends EventEmitter<OutboundQueueEventTypes> {
+  private entries: QueuedInput[] = [];
+  private dropped = emptyCounts();
+  private policy: OutboundQueuePolicy;
+
+  constructor(policy?: Partial<OutboundQueuePolicy>) {
+    super();
+    this.policy = { ...DEFAULT_OUTBOUND_QUEUE_POLICY, ...policy };
+  }
+
+  get length() {
+    return this.entries.length;
+  }
+
+  get stats(): OutboundQueueStats {
+    const depthByModality = emptyCounts();
+    this.entries.forEach(({ modality }) => depthByModality[modality]++);
+    return {
+      depth: this.entries.length,
+      depthByModality,
+      dropped: this.dropped.audio + this.dropped.video + this.dropped.other,
+      droppedByModality: { ...this.dropped },
+    };
+  }
+
+  enqueue(input: RealtimeInput) {
+    const modality = inputModality(input);
+    const policy = this.policy[modality];
+    const entry: QueuedInput = {
+      modality,
+      input,
+      durationMs: "audio" in input ? pcmChunkDuration(input.audio) : 0,
+    };
+
+    switch (policy.kind) {
+      case "drop":
+        this.dropped[modality]++;
+        break;
+      case "latest":
+        this.evict(modality, () => true);
+        this.entries.push(entry);
+        break;
+      case "bounded": {
+        this.entries.push(entry);
+        let excess = this.count(modality) - policy.maxItems;
+        this.evict(modality, () => excess-- > 0);
+        break;
+      }
+      case "window": {
+        this.entries.push(entry);
+        let excess = this.duration(modality) - policy.maxDurationMs;
+        this.evict(modality, (e) => {
+          if (excess <= 0) {
+            return false;
+          }
+          excess -= e.durationMs;
+          return true;
+        });
+        break;
+      }
+    }
+    this.emit("change", this.stats);
+  }
+
+  /**
+   * removes and returns everything queued, oldest first
+   */
+  drain(): RealtimeInput[] {
+    const inputs = this.entries.map((e) => e.input);
+    this.entries = [];
+    if (inputs.length) {
+      this.emit("change", this.stats);
+    }
+    return inputs;
+  }
+
+  /**
+   * discards everything queued and resets the drop counters
+   */
+  clear() {
+    const hadState = this.entries.length > 0 || this.stats.dropped > 0;
+    this.entries = [];
+    this.dropped = emptyCounts();
+    if (hadState) {
+      this.emit("change", this.stats);
+    }
+  }
+
+  private count(modality: QueueModality) {
+    return this.entries.filter((e) => e.modality === modality).length;
+  }
+
+  private duration(modality: QueueModality) {
+    return this.entries
+      .filter((e) => e.modality === modality)
+      .reduce((total, e) => total + e.durationMs, 0);
+  }
+
+  // drops entries of `modality`, oldest first, for as long as `predicate` holds
+  private evict(modality: QueueModality, predicate: (e: QueuedInput) => boolean) {
+    let evicting = true;
+    this.entries = this.entries.filter((e) => {
+      if (!evicting || e.modality !== modality) {
+        return true;
+      }
+      if (predicate(e)) {
+        this.dropped[modality]++;
+        return false;
+      }
+      evicting = false;
+      return true;
+    });
+  }
+}
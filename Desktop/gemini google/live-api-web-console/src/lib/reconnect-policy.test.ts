@@ -0,0 +1,79 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  applyJitter,
+  DEFAULT_RECONNECT_POLICY,
+  exponentialBackoff,
+  reconnectDelay,
+  resolveReconnectPolicy,
+} from "./reconnect-policy";
+
+afterEach(() => jest.restoreAllMocks());
+
+test("exponential backoff doubles from the base delay up to the max", () => {
+  const policy = resolveReconnectPolicy({ baseDelay: 500, maxDelay: 5000 });
+  expect([1, 2, 3, 4, 5, 6].map((n) => exponentialBackoff(n, policy))).toEqual([
+    500, 1000, 2000, 4000, 5000, 5000,
+  ]);
+});
+
+test("resolveReconnectPolicy keeps the defaults that aren't overridden", () => {
+  const policy = resolveReconnectPolicy({ maxAttempts: 2 });
+  expect(policy).toEqual({ ...DEFAULT_RECONNECT_POLICY, maxAttempts: 2 });
+  expect(resolveReconnectPolicy()).toEqual(DEFAULT_RECONNECT_POLICY);
+});
+
+describe("applyJitter", () => {
+  test.each([
+    ["none", 0, 1000],
+    ["none", 0.999, 1000],
+    ["full", 0, 0],
+    ["full", 0.5, 500],
+    ["equal", 0, 500],
+    ["equal", 0.5, 750],
+    ["additive", 0, 1000],
+    ["additive", 0.5, 1500],
+  ] as const)("%s with random %d gives %d", (jitter, random, expected) => {
+    jest.spyOn(Math, "random").mockReturnValue(random);
+    expect(applyJitter(1000, jitter, 1)).toBeCloseTo(expected);
+  });
+
+  test("passes the delay and failures to a custom strategy", () => {
+    const jitter = jest.fn((delay: number, failures: number) => delay * failures);
+    expect(applyJitter(1000, jitter, 3)).toBe(3000);
+    expect(jitter).toHaveBeenCalledWith(1000, 3);
+  });
+});
+
+describe("reconnectDelay", () => {
+  test("adds jitter to the backoff of the policy", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.25);
+    expect(reconnectDelay(DEFAULT_RECONNECT_POLICY, 3)).toBe(4250);
+    expect(
+      reconnectDelay(resolveReconnectPolicy({ jitter: "full" }), 10)
+    ).toBe(7500);
+  });
+
+  test("uses a custom backoff and never goes below zero", () => {
+    const policy = resolveReconnectPolicy({
+      backoff: (failures) => failures * 100,
+      jitter: (delay) => delay - 1000,
+    });
+    expect(reconnectDelay(policy, 20)).toBe(1000);
+    expect(reconnectDelay(policy, 2)).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * how randomness is added to a backoff delay
+ * - none: the delay as is
+ * - full: anywhere between 0 and the delay
+ * - equal: between half the delay and the delay
+ * - additive: the delay plus up to one second
+ */
+export type JitterStrategy =
+  | "none"
+  | "full"
+  | "equal"
+  | "additive"
+  | ((delay: number, failures: number) => number);
+
+export type ReconnectGiveUpContext = {
+  attempts: number;
+  lastCloseCode?: number;
+};
+
+export type ReconnectPolicy = {
+  /** attempts before giving up and moving to the "failed" state */
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  /**
+   * delay in ms before retrying after `failures` failed attempts in a row,
+   * the first attempt after a drop always runs immediately
+   */
+  backoff: (failures: number, policy: ReconnectPolicy) => number;
+  jitter: JitterStrategy;
+  /** close codes that always trigger a reconnect */
+  reconnectCodes: number[];
+  /**
+   * per close code decision, return undefined to keep `defaultDecision`
+   */
+  shouldReconnect?: (
+    code: number,
+    reason: string,
+    defaultDecision: boolean,
+  ) => boolean | undefined;
+  /** called once the attempts are exhausted */
+  onGiveUp?: (context: ReconnectGiveUpContext) => void;
+  /** ms between keep-alive messages on an open session */
+  heartbeatInterval: number;
+};
+
+export const exponentialBackoff = (
+  failures: number,
+  { baseDelay, maxDelay }: ReconnectPolicy,
+) => Math.min(maxDelay, baseDelay * Math.pow(2, failures - 1));
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  backoff: exponentialBackoff,
+  jitter: "additive",
+  reconnectCodes: [
+    1005, // No Status Received
+    1006, // Abnormal Closure
+    1011, // Server Error / Deadline Expired
+    1012, // Service Restart
+    1013, // Try Again Later
+    1014, // Bad Gateway
+  ],
+  heartbeatInterval: 25000, // 25s
+};
+
+export function resolveReconnectPolicy(
+  policy?: Partial<ReconnectPolicy>,
+): ReconnectPolicy {
+  return { ...DEFAULT_RECONNECT_POLICY, ...policy };
+}
+
+export function applyJitter(
+  delay: number,
+  jitter: JitterStrategy,
+  failures: number,
+): number {
+  if (typeof jitter === "function") {
+    return jitter(delay, failures);
+  }
+  switch (jitter) {
+    case "full":
+      return Math.random() * delay;
+    case "equal":
+      return delay / 2 + (Math.random() * delay) / 2;
+    case "additive":
+      return delay + Math.random() * 1000;
+    default:
+      return delay;
+  }
+}
+
+/**
+ * the delay after `failures` failed attempts, backoff plus jitter
+ */
+export function reconnectDelay(policy: ReconnectPolicy, failures: number) {
+  return Math.max(
+    0,
+    applyJitter(policy.backoff(failures, policy), policy.jitter, failures),
+  );
+}
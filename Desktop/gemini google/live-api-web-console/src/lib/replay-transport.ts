@@ -0,0 +1,117 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectParameters, LiveServerMessage } from "@google/genai";
+import {
+  createCloseEvent,
+  createErrorEvent,
+  LiveTimers,
+  nodeEnvironment,
+  TimerHandle,
+} from "./live-environment";
+import { LiveTransport, LiveTransportSession } from "./live-transport";
+import { RecordingEntry } from "./session-recorder";
+
+export type ReplayOptions = {
+  /** playback rate, 1 keeps the recorded timing, 0 plays as fast as possible */
+  speed?: number;
+  /** what schedules the recorded messages, the global timers by default */
+  timers?: LiveTimers;
+};
+
+/**
+ * Plays a recording from `SessionRecorder` back to the client instead of
+ * talking to a server. Every `connect` replays the server side of the next
+ * recorded session, so reconnects and handovers happen where they did in the
+ * recording. Whatever the client sends is dropped.
+ */
+export class ReplayTransport implements LiveTransport {
+  private sessions: RecordingEntry[][];
+  private speed: number;
+  private timers: LiveTimers;
+
+  constructor(
+    entries: RecordingEntry[],
+    { speed = 1, timers = nodeEnvironment.timers }: ReplayOptions = {}
+  ) {
+    const byConnection = new Map<number, RecordingEntry[]>();
+    for (const entry of entries) {
+      const session = byConnection.get(entry.connection) || [];
+      session.push(entry);
+      byConnection.set(entry.connection, session);
+    }
+    this.sessions = Array.from(byConnection.values());
+    this.speed = speed;
+    this.timers = timers;
+  }
+
+  /** recorded sessions that have not been replayed yet */
+  get remaining() {
+    return this.sessions.length;
+  }
+
+  async connect({ callbacks }: LiveConnectParameters): Promise<LiveTransportSession> {
+    const entries = this.sessions.shift();
+    if (!entries) {
+      throw new Error("Recording has no more sessions");
+    }
+    const timeouts: TimerHandle[] = [];
+    const start = entries[0].t;
+
+    const play = (entry: RecordingEntry) => {
+      switch (entry.kind) {
+        case "open":
+          callbacks.onopen?.();
+          break;
+        case "message":
+          callbacks.onmessage(entry.data as LiveServerMessage);
+          break;
+        case "error": {
+          const { message } = entry.data as { message: string };
+          callbacks.onerror?.(createErrorEvent(message));
+          break;
+        }
+        case "close": {
+          const { code, reason } = entry.data as { code: number; reason: string };
+          callbacks.onclose?.(createCloseEvent("close", { code, reason }));
+          break;
+        }
+      }
+    };
+
+    for (const entry of entries) {
+      if (entry.dir !== "in") {
+        continue;
+      }
+      const delay =
+        this.speed > 0 && Number.isFinite(this.speed)
+          ? (entry.t - start) / this.speed
+          : 0;
+      // timers with equal delays fire in order, which keeps "as fast as
+      // possible" playback in recorded order
+      timeouts.push(this.timers.setTimeout(() => play(entry), delay));
+    }
+
+    const stop = () =>
+      timeouts.forEach((timeout) => this.timers.clearTimeout(timeout));
+    return {
+      sendClientContent: () => {},
+      sendRealtimeInput: () => {},
+      sendToolResponse: () => {},
+      close: stop,
+    };
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectParameters } from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import { LiveTransport, LiveTransportSession } from "./live-transport";
+
+/**
+ * - connect: the client opened a session (`{ model, config }`)
+ * - open, message, error, close: callbacks from the server side
+ * - clientContent, realtimeInput, toolResponse: messages the client sent
+ * - closed: the client closed the session
+ */
+export type RecordingEntryKind =
+  | "connect"
+  | "open"
+  | "message"
+  | "error"
+  | "close"
+  | "clientContent"
+  | "realtimeInput"
+  | "toolResponse"
+  | "closed";
+
+export type RecordingEntry = {
+  /** ms since the recording started */
+  t: number;
+  /** sessions are numbered in the order they were opened, see handover */
+  connection: number;
+  dir: "in" | "out";
+  kind: RecordingEntryKind;
+  data?: unknown;
+};
+
+/** the first line of a recording file */
+export type RecordingHeader = {
+  format: typeof RECORDING_FORMAT;
+  version: 1;
+  startedAt: string;
+};
+
+const RECORDING_FORMAT = "live-session-recording";
+
+export interface SessionRecorderEventTypes {
+  change: (entries: number) => void;
+}
+
+/**
+ * Keeps a timestamped copy of everything that goes over the client's
+ * sessions while recording is on, and writes it out as JSONL: a header line
+ * followed by one `RecordingEntry` per line. Feed the file to
+ * `ReplayTransport` to play a session back.
+ */
+export class SessionRecorder extends EventEmitter<SessionRecorderEventTypes> {
+  private entries: RecordingEntry[] = [];
+  private startedAt = 0;
+  private connectionCounter = 0;
+  private _recording = false;
+
+  get recording() {
+    return this._recording;
+  }
+
+  get length() {
+    return this.entries.length;
+  }
+
+  /**
+   * starts a new recording, dropping the previous one
+   */
+  start() {
+    this.entries = [];
+    this.startedAt = Date.now();
+    this._recording = true;
+    this.emit("change", 0);
+  }
+
+  stop() {
+    this._recording = false;
+    this.emit("change", this.entries.length);
+  }
+
+  nextConnection() {
+    return ++this.connectionCounter;
+  }
+
+  record(
+    connection: number,
+    dir: RecordingEntry["dir"],
+    kind: RecordingEntryKind,
+    data?: unknown,
+  ) {
+    if (!this._recording) {
+      return;
+    }
+    this.entries.push({
+      t: Date.now() - this.startedAt,
+      connection,
+      dir,
+      kind,
+      // a copy, so later changes to the message don't rewrite history
+      data: data === undefined ? undefined : JSON.parse(JSON.stringify(data)),
+    });
+    this.emit("change", this.entries.length);
+  }
+
+  toJSONL(): string {
+    const header: RecordingHeader = {
+      format: RECORDING_FORMAT,
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+    };
+    return [header, ...this.entries].map((line) => JSON.stringify(line)).join("\n") + "\n";
+  }
+
+  /**
+   * saves the recording as a file, browser only
+   */
+  download(filename = `live-session-${new Date(this.startedAt).toISOString()}.jsonl`) {
+    const url = URL.createObjectURL(
+      new Blob([this.toJSONL()], { type: "application/jsonl" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename.replace(/:/g, "-");
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function parseRecording(jsonl: string): RecordingEntry[] {
+  const [headerLine, ...lines] = jsonl.split("\n").filter((l) => l.trim());
+  const header = headerLine ? (JSON.parse(headerLine) as RecordingHeader) : null;
+  if (header?.format !== RECORDING_FORMAT) {
+    throw new Error("Not a live session recording");
+  }
+  return lines.map((line) => JSON.parse(line) as RecordingEntry);
+}
+
+/**
+ * Wraps another transport and reports every session it opens to `recorder`.
+ */
+export class RecordingTransport implements LiveTransport {
+  constructor(
+    private inner: LiveTransport,
+    private recorder: SessionRecorder,
+  ) {}
+
+  async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    const recorder = this.recorder;
+    const connection = recorder.nextConnection();
+    const { callbacks } = params;
+    recorder.record(connection, "out", "connect", {
+      model: params.model,
+      config: params.config,
+    });
+
+    const session = await this.inner.connect({
+      ...params,
+      callbacks: {
+        onopen: () => {
+          recorder.record(connection, "in", "open");
+          callbacks.onopen?.();
+        },
+        onmessage: (message) => {
+          recorder.record(connection, "in", "message", message);
+          callbacks.onmessage(message);
+        },
+        onerror: (e) => {
+          recorder.record(connection, "in", "error", { message: e.message });
+          callbacks.onerror?.(e);
+        },
+        onclose: (e) => {
+          recorder.record(connection, "in", "close", {
+            code: e.code,
+            reason: e.reason,
+          });
+          callbacks.onclose?.(e);
+        },
+      },
+    });
+
+    return {
+      sendClientContent: (params) => {
+        recorder.record(connection, "out", "clientContent", params);
+        return session.sendClientContent(params);
+      },
+      sendRealtimeInput: (params) => {
+        recorder.record(connection, "out", "realtimeInput", params);
+        return session.sendRealtimeInput(params);
+      },
+      sendToolResponse: (params) => {
+        recorder.record(connection, "out", "toolResponse", params);
+        return session.sendToolResponse(params);
+      },
+      close: () => {
+        recorder.record(connection, "out", "closed");
+        session.close();
+      },
+    };
+  }
+}
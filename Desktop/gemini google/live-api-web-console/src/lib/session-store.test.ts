@@ -0,0 +1,130 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Modality } from "@google/genai";
+import {
+  createSessionStore,
+  DEFAULT_SESSION_NAMESPACE,
+  IndexedDBSessionStore,
+  LocalStorageSessionStore,
+  MemorySessionStore,
+  sessionKey,
+  SessionStorageSessionStore,
+  WebStorageSessionStore,
+} from "./session-store";
+
+describe("sessionKey", () => {
+  test("doesn't depend on the order of config keys", () => {
+    const a = sessionKey("models/a", {
+      responseModalities: [Modality.AUDIO],
+      systemInstruction: { parts: [{ text: "be brief" }] },
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: "Puck" } } },
+    });
+    const b = sessionKey("models/a", {
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: "Puck" } } },
+      systemInstruction: { parts: [{ text: "be brief" }] },
+      responseModalities: [Modality.AUDIO],
+    });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^models\/a:[0-9a-f]{8}$/);
+  });
+
+  test("ignores resumption and transport settings and undefined fields", () => {
+    const base = sessionKey("models/a", { responseModalities: [Modality.AUDIO] });
+    expect(
+      sessionKey("models/a", {
+        responseModalities: [Modality.AUDIO],
+        sessionResumption: { handle: "handle-1" },
+        httpOptions: { timeout: 1000 },
+        temperature: undefined,
+      })
+    ).toBe(base);
+  });
+
+  test("changes with the model and the setup", () => {
+    const base = sessionKey("models/a", { responseModalities: [Modality.AUDIO] });
+    expect(sessionKey("models/b", { responseModalities: [Modality.AUDIO] })).not.toBe(base);
+    expect(sessionKey("models/a", { responseModalities: [Modality.TEXT] })).not.toBe(base);
+    // array order is part of the setup
+    expect(
+      sessionKey("models/a", {
+        tools: [{ googleSearch: {} }, { codeExecution: {} }],
+      })
+    ).not.toBe(
+      sessionKey("models/a", {
+        tools: [{ codeExecution: {} }, { googleSearch: {} }],
+      })
+    );
+  });
+});
+
+describe("MemorySessionStore", () => {
+  test("gets, overwrites and deletes handles", async () => {
+    const store = new MemorySessionStore();
+    expect(await store.get("key")).toBeNull();
+    await store.set("key", { handle: "handle-1", updatedAt: 1 });
+    await store.set("key", { handle: "handle-2", updatedAt: 2 });
+    expect(await store.get("key")).toEqual({ handle: "handle-2", updatedAt: 2 });
+    await store.delete("key");
+    expect(await store.get("key")).toBeNull();
+  });
+});
+
+describe("WebStorageSessionStore", () => {
+  beforeEach(() => localStorage.clear());
+
+  test("keeps handles as JSON under the namespace", async () => {
+    const store = new LocalStorageSessionStore("console");
+    await store.set("key", { handle: "handle-1", updatedAt: 1 });
+    expect(JSON.parse(localStorage.getItem("console:key")!)).toEqual({
+      handle: "handle-1",
+      updatedAt: 1,
+    });
+    expect(await new LocalStorageSessionStore("other").get("key")).toBeNull();
+    expect(await new LocalStorageSessionStore("console").get("key")).toEqual({
+      handle: "handle-1",
+      updatedAt: 1,
+    });
+
+    await store.delete("key");
+    expect(localStorage.getItem("console:key")).toBeNull();
+  });
+
+  test("uses the default namespace", async () => {
+    await new LocalStorageSessionStore().set("key", { handle: "h", updatedAt: 1 });
+    expect(localStorage.getItem(`${DEFAULT_SESSION_NAMESPACE}:key`)).not.toBeNull();
+  });
+
+  test("falls back to memory when the storage is unavailable", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new WebStorageSessionStore(() => {
+      throw new DOMException("denied", "SecurityError");
+    });
+    await store.set("key", { handle: "handle-1", updatedAt: 1 });
+    expect(await store.get("key")).toEqual({ handle: "handle-1", updatedAt: 1 });
+    await store.delete("key");
+    expect(await store.get("key")).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+test("createSessionStore picks the store for a kind", () => {
+  expect(createSessionStore("memory")).toBeInstanceOf(MemorySessionStore);
+  expect(createSessionStore("session")).toBeInstanceOf(SessionStorageSessionStore);
+  expect(createSessionStore("indexeddb")).toBeInstanceOf(IndexedDBSessionStore);
+  expect(createSessionStore("local")).toBeInstanceOf(LocalStorageSessionStore);
+});
@@ -0,0 +1,231 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig } from "@google/genai";
+
+/**
+ * a session resumption handle and when the server last handed it out
+ */
+export type StoredSessionHandle = {
+  handle: string;
+  updatedAt: number;
+};
+
+/**
+ * Persists session resumption handles between connections and page loads.
+ * Methods are async so stores can be backed by IndexedDB or a server.
+ */
+export interface SessionStore {
+  get(key: string): Promise<StoredSessionHandle | null>;
+  set(key: string, value: StoredSessionHandle): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type SessionStoreKind = "local" | "session" | "indexeddb" | "memory";
+
+export const DEFAULT_SESSION_NAMESPACE = "gemini_session";
+
+/**
+ * resumption handles are only honoured for a limited time after the last
+ * connection closes, 2 hours at the time of writing
+ */
+export const DEFAULT_SESSION_MAX_AGE = 2 * 60 * 60 * 1000;
+
+export class MemorySessionStore implements SessionStore {
+  private records = new Map<string, StoredSessionHandle>();
+
+  async get(key: string) {
+    return this.records.get(key) || null;
+  }
+
+  async set(key: string, value: StoredSessionHandle) {
+    this.records.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * backed by a `Storage` such as localStorage or sessionStorage
+ * falls back to memory when the storage is unavailable, e.g. in private mode
+ */
+export class WebStorageSessionStore implements SessionStore {
+  private fallback = new MemorySessionStore();
+
+  constructor(
+    private storage: () => Storage,
+    private namespace = DEFAULT_SESSION_NAMESPACE,
+  ) {}
+
+  private storageKey(key: string) {
+    return `${this.namespace}:${key}`;
+  }
+
+  async get(key: string) {
+    try {
+      const raw = this.storage().getItem(this.storageKey(key));
+      return raw ? (JSON.parse(raw) as StoredSessionHandle) : null;
+    } catch (e) {
+      console.warn("Storage access failed, using memory fallback");
+      return this.fallback.get(key);
+    }
+  }
+
+  async set(key: string, value: StoredSessionHandle) {
+    try {
+      this.storage().setItem(this.storageKey(key), JSON.stringify(value));
+    } catch (e) {
+      console.warn("Storage write failed, using memory fallback");
+      await this.fallback.set(key, value);
+    }
+  }
+
+  async delete(key: string) {
+    try {
+      this.storage().removeItem(this.storageKey(key));
+    } catch (e) {
+      console.warn("Storage write failed, using memory fallback");
+    }
+    await this.fallback.delete(key);
+  }
+}
+
+export class LocalStorageSessionStore extends WebStorageSessionStore {
+  constructor(namespace?: string) {
+    super(() => localStorage, namespace);
+  }
+}
+
+export class SessionStorageSessionStore extends WebStorageSessionStore {
+  constructor(namespace?: string) {
+    super(() => sessionStorage, namespace);
+  }
+}
+
+export class IndexedDBSessionStore implements SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private namespace = DEFAULT_SESSION_NAMESPACE,
+    private dbName = "gemini-live",
+    private storeName = "session-handles",
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const store = db
+        .transaction(this.storeName, mode)
+        .objectStore(this.storeName);
+      const request = makeRequest(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(key: string) {
+    const value = await this.request<StoredSessionHandle | undefined>(
+      "readonly",
+      (store) => store.get(`${this.namespace}:${key}`),
+    );
+    return value || null;
+  }
+
+  async set(key: string, value: StoredSessionHandle) {
+    await this.request("readwrite", (store) =>
+      store.put(value, `${this.namespace}:${key}`),
+    );
+  }
+
+  async delete(key: string) {
+    await this.request("readwrite", (store) =>
+      store.delete(`${this.namespace}:${key}`),
+    );
+  }
+}
+
+export function createSessionStore(
+  kind: SessionStoreKind,
+  namespace?: string,
+): SessionStore {
+  switch (kind) {
+    case "session":
+      return new SessionStorageSessionStore(namespace);
+    case "indexeddb":
+      return new IndexedDBSessionStore(namespace);
+    case "memory":
+      return new MemorySessionStore();
+    default:
+      return new LocalStorageSessionStore(namespace);
+  }
+}
+
+// JSON with sorted keys so equal configs always serialize the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map(
+        (k) =>
+          `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// 32-bit FNV-1a, plenty to tell configs apart
+function hashString(str: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * The key a resumption handle is stored under. A handle can only resume a
+ * session with the same model and setup, so anything in the config other than
+ * the resumption settings themselves is part of the key.
+ */
+export function sessionKey(model: string, config: LiveConnectConfig): string {
+  const { sessionResumption, httpOptions, abortSignal, ...relevant } = config;
+  return `${model}:${hashString(stableStringify(relevant))}`;
+}
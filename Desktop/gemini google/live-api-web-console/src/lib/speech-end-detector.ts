@@ -0,0 +1,75 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type SpeechEndDetectorOptions = {
+  /** microphone volume (RMS, 0 to 1) that counts as speech */
+  threshold?: number;
+  /** shorter bursts, e.g. a cough or a click, are ignored */
+  minSpeechMs?: number;
+  /** quiet for this long ends the speech */
+  silenceMs?: number;
+};
+
+/**
+ * A minimal voice activity detector on the microphone volume. It only tells
+ * the client when the user stopped talking, for the speechToAudio latency
+ * while the server does activity detection; it doesn't decide what is sent.
+ */
+export class SpeechEndDetector {
+  private threshold: number;
+  private minSpeechMs: number;
+  private silenceMs: number;
+  private speechStartedAt: number | null = null;
+  private quietSince: number | null = null;
+
+  constructor({
+    threshold = 0.015,
+    minSpeechMs = 200,
+    silenceMs = 500,
+  }: SpeechEndDetectorOptions = {}) {
+    this.threshold = threshold;
+    this.minSpeechMs = minSpeechMs;
+    this.silenceMs = silenceMs;
+  }
+
+  /**
+   * feeds a volume reading
+   * @returns when the speech ended, once it has been quiet for `silenceMs`
+   */
+  update(volume: number, now = Date.now()): number | null {
+    if (volume >= this.threshold) {
+      this.speechStartedAt ??= now;
+      this.quietSince = null;
+      return null;
+    }
+    if (this.speechStartedAt === null) {
+      return null;
+    }
+    this.quietSince ??= now;
+    if (now - this.quietSince < this.silenceMs) {
+      return null;
+    }
+    const endedAt = this.quietSince;
+    const spoken = endedAt - this.speechStartedAt;
+    this.reset();
+    return spoken >= this.minSpeechMs ? endedAt : null;
+  }
+
+  reset() {
+    this.speechStartedAt = null;
+    this.quietSince = null;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  ConnectionProfile,
+  ConnectionProfileKind,
+} from "./connection-profile";
+
+interface StoreConnectionProfilesState {
+  /** profiles from .env, see `setBuiltinProfiles` */
+  builtins: ConnectionProfile[];
+  /** profiles the user created, kept in localStorage */
+  profiles: ConnectionProfile[];
+  activeId: string | null;
+  setBuiltinProfiles: (profiles: ConnectionProfile[]) => void;
+  addProfile: (kind: ConnectionProfileKind) => ConnectionProfile;
+  updateProfile: (id: string, changes: Partial<ConnectionProfile>) => void;
+  removeProfile: (id: string) => void;
+  selectProfile: (id: string) => void;
+}
+
+const blankProfile = (kind: ConnectionProfileKind): ConnectionProfile => {
+  const id = `profile-${Date.now().toString(36)}`;
+  switch (kind) {
+    case "gemini":
+      return { id, kind, name: "Gemini API" };
+    case "vertex":
+      return { id, kind, name: "Vertex AI", project: "", location: "us-central1" };
+    case "proxy":
+      return { id, kind, name: "Local proxy", baseUrl: "http://localhost:9090" };
+  }
+};
+
+/**
+ * Connection profiles, so the same console can switch between e.g. prod,
+ * staging and a local stand-in. API keys typed into a profile are stored in
+ * this browser's localStorage.
+ */
+export const useConnectionProfileStore = create<StoreConnectionProfilesState>()(
+  persist(
+    (set, get) => ({
+      builtins: [],
+      profiles: [],
+      activeId: null,
+      setBuiltinProfiles: (builtins) =>
+        set({ builtins: builtins.map((p) => ({ ...p, builtin: true })) }),
+      addProfile: (kind) => {
+        const profile = blankProfile(kind);
+        set((state) => ({
+          profiles: [...state.profiles, profile],
+          activeId: profile.id,
+        }));
+        return profile;
+      },
+      updateProfile: (id, changes) =>
+        set((state) => ({
+          profiles: state.profiles.map((p) =>
+            p.id === id ? ({ ...p, ...changes } as ConnectionProfile) : p
+          ),
+        })),
+      removeProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+          activeId: state.activeId === id ? null : state.activeId,
+        })),
+      selectProfile: (id) => {
+        if ([...get().builtins, ...get().profiles].some((p) => p.id === id)) {
+          set({ activeId: id });
+        }
+      },
+    }),
+    {
+      name: "live-api-connection-profiles",
+      partialize: ({ profiles, activeId }) => ({ profiles, activeId }),
+    }
+  )
+);
+
+/**
+ * the selected profile, or the first one when the selection is gone
+ */
+export function useActiveConnectionProfile(): ConnectionProfile | undefined {
+  return useConnectionProfileStore(({ builtins, profiles, activeId }) => {
+    const all = [...builtins, ...profiles];
+    return all.find((p) => p.id === activeId) || all[0];
+  });
+}
@@ -14,52 +14,76 @@
  * limitations under the License.
  */
 
-import { create } from "zustand";
+import { LiveServerToolCallCancellation } from "@google/genai";
+import { create, UseBoundStore, StoreApi } from "zustand";
 import { StreamingLog } from "../types/types";
 import { mockLogs } from "../components/logger/mock-logs";
 
 interface StoreLoggerState {
   maxLogs: number;
   logs: StreamingLog[];
+  /** ids of tool calls the server cancelled, kept when their logs roll off */
+  cancelledToolCallIds: Set<string>;
   log: (streamingLog: StreamingLog) => void;
   clearLogs: () => void;
 }
 
-export const useLoggerStore = create<StoreLoggerState>((set, get) => ({
-  maxLogs: 100,
-  logs: [], //mockLogs,
-  log: ({ date, type, message }: StreamingLog) => {
-    set((state) => {
-      const prevLog = state.logs.at(-1);
-      if (prevLog && prevLog.type === type && prevLog.message === message) {
+export type LoggerStore = UseBoundStore<StoreApi<StoreLoggerState>>;
+
+const cancelledIds = (message: StreamingLog["message"]): string[] =>
+  typeof message === "object" && "toolCallCancellation" in message
+    ? (message.toolCallCancellation as LiveServerToolCallCancellation).ids ||
+      []
+    : [];
+
+/**
+ * a separate log per client, e.g. one column per session when comparing
+ */
+export const createLoggerStore = (): LoggerStore =>
+  create<StoreLoggerState>((set, get) => ({
+    maxLogs: 100,
+    logs: [], //mockLogs,
+    cancelledToolCallIds: new Set(),
+    log: ({ date, type, message }: StreamingLog) => {
+      set((state) => {
+        const prevLog = state.logs.at(-1);
+        if (prevLog && prevLog.type === type && prevLog.message === message) {
+          return {
+            logs: [
+              ...state.logs.slice(0, -1),
+              {
+                date,
+                type,
+                message,
+                count: prevLog.count ? prevLog.count + 1 : 1,
+              } as StreamingLog,
+            ],
+          };
+        }
+        const cancelled = cancelledIds(message);
         return {
           logs: [
-            ...state.logs.slice(0, -1),
+            ...state.logs.slice(-(get().maxLogs - 1)),
             {
               date,
               type,
               message,
-              count: prevLog.count ? prevLog.count + 1 : 1,
             } as StreamingLog,
           ],
+          // a new set only when something was cancelled, so subscribers to
+          // it don't re-render on every log
+          cancelledToolCallIds: cancelled.length
+            ? new Set([...Array.from(state.cancelledToolCallIds), ...cancelled])
+            : state.cancelledToolCallIds,
         };
-      }
-      return {
-        logs: [
-          ...state.logs.slice(-(get().maxLogs - 1)),
-          {
-            date,
-            type,
-            message,
-          } as StreamingLog,
-        ],
-      };
-    });
-  },
+      });
+    },
+
+    clearLogs: () => {
+      console.log("clear log");
+      set({ logs: [], cancelledToolCallIds: new Set() });
+    },
+    setMaxLogs: (n: number) => set({ maxLogs: n }),
+  }));
 
-  clearLogs: () => {
-    console.log("clear log");
-    set({ logs: [] });
-  },
-  setMaxLogs: (n: number) => set({ maxLogs: n }),
-}));
+export const useLoggerStore = createLoggerStore();
@@ -0,0 +1,47 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { RecordingEntry } from "./session-recorder";
+
+export type Replay = {
+  /** file name of the recording */
+  name: string;
+  entries: RecordingEntry[];
+  /** see `ReplayOptions.speed` */
+  speed: number;
+};
+
+interface StoreReplayState {
+  /** the recording the console plays back instead of connecting, if any */
+  replay: Replay | null;
+  startReplay: (name: string, entries: RecordingEntry[]) => void;
+  setReplaySpeed: (speed: number) => void;
+  stopReplay: () => void;
+}
+
+export const useReplayStore = create<StoreReplayState>((set) => ({
+  replay: null,
+  startReplay: (name, entries) =>
+    set((state) => ({
+      replay: { name, entries, speed: state.replay?.speed ?? 1 },
+    })),
+  setReplaySpeed: (speed) =>
+    set((state) => ({
+      replay: state.replay && { ...state.replay, speed },
+    })),
+  stopReplay: () => set({ replay: null }),
+}));
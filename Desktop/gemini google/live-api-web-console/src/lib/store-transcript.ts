@@ -0,0 +1,101 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+
+export type TranscriptRole = "user" | "model";
+
+export type TranscriptTurn = {
+  id: number;
+  role: TranscriptRole;
+  text: string;
+  startedAt: Date;
+  /** no more text will be appended */
+  finished: boolean;
+  /** the model was cut off by the user */
+  interrupted?: boolean;
+};
+
+interface StoreTranscriptState {
+  maxTurns: number;
+  turns: TranscriptTurn[];
+  /** appends a partial transcription to the open turn of `role` */
+  append: (role: TranscriptRole, text: string, finished?: boolean) => void;
+  /** closes every open turn, e.g. on turncomplete or interrupted */
+  endTurn: (interrupted?: boolean) => void;
+  clearTranscript: () => void;
+}
+
+let turnCounter = 0;
+
+/**
+ * Partial transcriptions stream in as small fragments. Fragments are joined
+ * into one bubble per speaker turn, a turn closes when the other side starts
+ * speaking, when the server flags it as finished or when the model's turn
+ * completes.
+ */
+export const useTranscriptStore = create<StoreTranscriptState>((set, get) => ({
+  maxTurns: 200,
+  turns: [],
+  append: (role, text, finished = false) => {
+    set((state) => {
+      const open = state.turns.findLastIndex(
+        (t) => t.role === role && !t.finished
+      );
+      // the other speaker took over
+      const turns = state.turns.map((t) =>
+        t.role !== role && !t.finished ? { ...t, finished: true } : t
+      );
+      if (open !== -1) {
+        turns[open] = {
+          ...turns[open],
+          text: turns[open].text + text,
+          finished,
+        };
+        return { turns };
+      }
+      if (!text) {
+        return { turns };
+      }
+      return {
+        turns: [
+          ...turns.slice(-(get().maxTurns - 1)),
+          {
+            id: ++turnCounter,
+            role,
+            text,
+            startedAt: new Date(),
+            finished,
+          },
+        ],
+      };
+    });
+  },
+  endTurn: (interrupted = false) => {
+    set((state) => ({
+      turns: state.turns.map((t) =>
+        t.finished
+          ? t
+          : {
+              ...t,
+              finished: true,
+              interrupted: interrupted && t.role === "model",
+            }
+      ),
+    }));
+  },
+  clearTranscript: () => set({ turns: [] }),
+}));
@@ -0,0 +1,234 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Behavior,
+  FunctionDeclaration,
+  FunctionResponseScheduling,
+  LiveClientToolResponse,
+  Schema,
+  Type,
+} from "@google/genai";
+import {
+  mergeFunctionDeclarations,
+  scheduledResponse,
+  ToolContext,
+  ToolRegistry,
+  validateArgs,
+} from "./tool-registry";
+
+describe("validateArgs", () => {
+  const schema: Schema = {
+    type: Type.OBJECT,
+    required: ["city", "days"],
+    properties: {
+      city: { type: Type.STRING, minLength: "2" },
+      days: { type: Type.INTEGER, minimum: 1, maximum: 7 },
+      units: { type: Type.STRING, enum: ["metric", "imperial"] },
+      tags: { type: Type.ARRAY, items: { type: Type.STRING }, maxItems: "2" },
+      note: { type: Type.STRING, nullable: true },
+      id: { anyOf: [{ type: Type.STRING }, { type: Type.INTEGER }] },
+    },
+  };
+
+  test("accepts arguments that match the schema", () => {
+    expect(
+      validateArgs(schema, {
+        city: "Oslo",
+        days: 3,
+        units: "metric",
+        tags: ["a"],
+        note: null,
+        id: 4,
+      })
+    ).toEqual([]);
+  });
+
+  test("lists every problem with its path", () => {
+    expect(
+      validateArgs(schema, {
+        city: "O",
+        days: 2.5,
+        units: "kelvin",
+        tags: ["a", 1, "c"],
+        id: true,
+      })
+    ).toEqual([
+      "args.city must be at least 2 characters",
+      "args.days must be an integer",
+      "args.units must be one of metric, imperial",
+      "args.tags must have at most 2 items",
+      "args.tags[1] must be a string",
+      "args.id does not match any allowed schema",
+    ]);
+  });
+
+  test("reports missing required properties and wrong types", () => {
+    expect(validateArgs(schema, { days: "3" })).toEqual([
+      "args.city is required",
+      "args.days must be a number",
+    ]);
+    expect(validateArgs(schema, [])).toEqual(["args must be an object"]);
+    expect(validateArgs({ type: Type.STRING }, null)).toEqual([
+      "args must not be null",
+    ]);
+  });
+
+  test("accepts anything without a schema", () => {
+    expect(validateArgs(undefined, { any: "thing" })).toEqual([]);
+  });
+});
+
+test("mergeFunctionDeclarations keeps declarations already in the config", () => {
+  const edited: FunctionDeclaration = { name: "lookup", description: "edited" };
+  const config = { tools: [{ functionDeclarations: [edited] }] };
+  const merged = mergeFunctionDeclarations(config, [
+    { name: "lookup", description: "registered" },
+    { name: "other" },
+  ]);
+  expect(merged.tools).toEqual([
+    { functionDeclarations: [edited] },
+    { functionDeclarations: [{ name: "other" }] },
+  ]);
+});
+
+describe("ToolRegistry", () => {
+  const declaration: FunctionDeclaration = {
+    name: "lookup",
+    parameters: {
+      type: Type.OBJECT,
+      required: ["query"],
+      properties: { query: { type: Type.STRING } },
+    },
+  };
+
+  function setup() {
+    const responses: LiveClientToolResponse[] = [];
+    const logs: string[] = [];
+    const registry = new ToolRegistry({
+      sendToolResponse: (response) => responses.push(response),
+      log: (type) => logs.push(type),
+    });
+    const response = (i: number) => responses[i].functionResponses![0];
+    return { registry, responses, response, logs };
+  }
+
+  test("sends the handler's result for each call", async () => {
+    const { registry, response } = setup();
+    const handler = jest.fn(({ query }: { query: string }) => `found ${query}`);
+    registry.register(declaration, handler);
+
+    await registry.dispatch({
+      functionCalls: [{ id: "1", name: "lookup", args: { query: "cats" } }],
+    });
+    expect(handler).toHaveBeenCalledWith(
+      { query: "cats" },
+      expect.objectContaining({ id: "1", name: "lookup", background: false })
+    );
+    expect(response(0)).toEqual({
+      id: "1",
+      name: "lookup",
+      response: { output: "found cats" },
+    });
+  });
+
+  test("answers unknown functions, invalid arguments and handler errors", async () => {
+    const { registry, responses } = setup();
+    registry.register(declaration, () => {
+      throw new Error("backend down");
+    });
+
+    await registry.dispatch({
+      functionCalls: [
+        { id: "1", name: "missing" },
+        { id: "2", name: "lookup", args: {} },
+        { id: "3", name: "lookup", args: { query: "cats" } },
+      ],
+    });
+    const errors = responses.map(
+      (r) => (r.functionResponses![0].response!.error as { code: string }).code
+    );
+    expect(errors).toEqual([
+      "UNKNOWN_FUNCTION",
+      "INVALID_ARGUMENTS",
+      "HANDLER_ERROR",
+    ]);
+  });
+
+  test("unregisters through the function register returns", () => {
+    const { registry } = setup();
+    const unregister = registry.register(declaration, () => {});
+    expect(registry.has("lookup")).toBe(true);
+    unregister();
+    expect(registry.has("lookup")).toBe(false);
+  });
+
+  test("aborts cancelled calls and drops their responses", async () => {
+    const { registry, responses, logs } = setup();
+    let context: ToolContext | undefined;
+    let finish = () => {};
+    registry.register(declaration, (args, ctx) => {
+      context = ctx;
+      return new Promise<string>((resolve) => {
+        finish = () => resolve("too late");
+      });
+    });
+
+    const dispatched = registry.dispatch({
+      functionCalls: [{ id: "1", name: "lookup", args: { query: "cats" } }],
+    });
+    registry.cancel(["1"]);
+    expect(context!.signal.aborted).toBe(true);
+    finish();
+    await dispatched;
+    expect(responses).toHaveLength(0);
+    expect(logs).toEqual([
+      "client.toolCall.cancelled",
+      "client.toolResponse.suppressed",
+    ]);
+  });
+
+  test("schedules responses of NON_BLOCKING functions only", async () => {
+    const { registry, response, logs } = setup();
+    const output = () =>
+      scheduledResponse("done", {
+        scheduling: FunctionResponseScheduling.SILENT,
+        willContinue: true,
+      });
+    registry.register({ ...declaration, behavior: Behavior.NON_BLOCKING }, output);
+    registry.register({ name: "blocking" }, output);
+
+    await registry.dispatch({
+      functionCalls: [
+        { id: "1", name: "lookup", args: { query: "cats" } },
+        { id: "2", name: "blocking" },
+      ],
+    });
+    expect(response(0)).toEqual({
+      id: "1",
+      name: "lookup",
+      response: { output: "done" },
+      scheduling: FunctionResponseScheduling.SILENT,
+      willContinue: true,
+    });
+    expect(response(1)).toEqual({
+      id: "2",
+      name: "blocking",
+      response: { output: "done" },
+    });
+    expect(logs).toContain("client.toolResponse.warn");
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Behavior,
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  FunctionResponseScheduling,
+  LiveClientToolResponse,
+  LiveConnectConfig,
+  LiveServerToolCall,
+  Schema,
+  Tool,
+  Type,
+} from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import { StreamingLog } from "../types/types";
+
+export type ToolContext = {
+  id?: string;
+  name: string;
+  /** aborted when the server cancels this call, its response is then dropped */
+  signal: AbortSignal;
+  /** declared NON_BLOCKING, the model keeps talking while this runs */
+  background: boolean;
+};
+
+/**
+ * how a NON_BLOCKING function's response enters the conversation,
+ * ignored by the server for blocking functions
+ */
+export type ToolResponseOptions = {
+  scheduling?: FunctionResponseScheduling;
+  /** more responses for this call will follow */
+  willContinue?: boolean;
+};
+
+const scheduled = Symbol("scheduledResponse");
+
+export type ScheduledResponse = ToolResponseOptions & {
+  [scheduled]: true;
+  output: unknown;
+};
+
+/**
+ * wraps a handler's return value to control its scheduling, e.g.
+ * `return scheduledResponse(result, { scheduling: FunctionResponseScheduling.SILENT })`
+ */
+export function scheduledResponse(
+  output: unknown,
+  options: ToolResponseOptions,
+): ScheduledResponse {
+  return { [scheduled]: true, output, ...options };
+}
+
+const isScheduledResponse = (value: unknown): value is ScheduledResponse =>
+  typeof value === "object" && value !== null && scheduled in value;
+
+/** function call arguments, as the server sends them */
+export type ToolArgs = Record<string, unknown>;
+
+export type ToolHandler<Args = ToolArgs> = (
+  args: Args,
+  context: ToolContext,
+) => unknown | Promise<unknown>;
+
+type RegisteredTool = {
+  declaration: FunctionDeclaration;
+  handler: ToolHandler;
+};
+
+/**
+ * what the registry needs from the client it dispatches for
+ */
+export type ToolRegistryHost = {
+  sendToolResponse: (toolResponse: LiveClientToolResponse) => void;
+  log: (type: string, message: StreamingLog["message"]) => void;
+};
+
+export type ToolErrorCode =
+  | "UNKNOWN_FUNCTION"
+  | "INVALID_ARGUMENTS"
+  | "HANDLER_ERROR";
+
+export type ToolError = {
+  code: ToolErrorCode;
+  message: string;
+  details?: string[];
+};
+
+export interface ToolRegistryEventTypes {
+  change: () => void;
+}
+
+type FunctionDeclarationsTool = Tool & {
+  functionDeclarations: FunctionDeclaration[];
+};
+
+const isFunctionDeclarationsTool = (
+  tool: Tool,
+): tool is FunctionDeclarationsTool => Array.isArray(tool.functionDeclarations);
+
+/**
+ * Returns a copy of `config` whose tools include `declarations`.
+ * Declarations already present in the config win, so edits made in the
+ * settings dialog are kept.
+ */
+export function mergeFunctionDeclarations(
+  config: LiveConnectConfig,
+  declarations: FunctionDeclaration[],
+): LiveConnectConfig {
+  const tools: Tool[] = config.tools ? [...(config.tools as Tool[])] : [];
+  const declared = new Set(
+    tools
+      .filter(isFunctionDeclarationsTool)
+      .flatMap((t) => t.functionDeclarations.map((fd) => fd.name)),
+  );
+  const missing = declarations.filter((fd) => !declared.has(fd.name));
+  if (!missing.length) {
+    return { ...config };
+  }
+  return { ...config, tools: [...tools, { functionDeclarations: missing }] };
+}
+
+/**
+ * names of the functions `config` declares as NON_BLOCKING
+ */
+export function nonBlockingFunctionNames(config: LiveConnectConfig): Set<string> {
+  const tools = (config.tools || []) as Tool[];
+  return new Set(
+    tools
+      .filter(isFunctionDeclarationsTool)
+      .flatMap((t) => t.functionDeclarations)
+      .filter((fd) => fd.behavior === Behavior.NON_BLOCKING && fd.name)
+      .map((fd) => fd.name!),
+  );
+}
+
+/**
+ * Validates function call arguments against a declaration's `parameters`
+ * schema and returns a list of human readable problems, empty when valid.
+ */
+export function validateArgs(
+  schema: Schema | undefined,
+  value: unknown,
+  path = "args",
+): string[] {
+  if (!schema) {
+    return [];
+  }
+  if (value === undefined || value === null) {
+    return schema.nullable || value === undefined
+      ? []
+      : [`${path} must not be null`];
+  }
+  if (schema.anyOf?.length) {
+    const matches = schema.anyOf.some(
+      (option) => validateArgs(option, value, path).length === 0,
+    );
+    return matches ? [] : [`${path} does not match any allowed schema`];
+  }
+
+  const errors: string[] = [];
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== "string") {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum?.length && !schema.enum.includes(value)) {
+        errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+      }
+      if (schema.minLength && value.length < Number(schema.minLength)) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength && value.length > Number(schema.maxLength)) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${path} must match ${schema.pattern}`);
+      }
+      break;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return [`${path} must be a number`];
+      }
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+      break;
+    case Type.BOOLEAN:
+      if (typeof value !== "boolean") {
+        return [`${path} must be a boolean`];
+      }
+      break;
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      if (schema.minItems && value.length < Number(schema.minItems)) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems && value.length > Number(schema.maxItems)) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      value.forEach((item, i) => {
+        errors.push(...validateArgs(schema.items, item, `${path}[${i}]`));
+      });
+      break;
+    case Type.OBJECT: {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      (schema.required || []).forEach((key) => {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        errors.push(...validateArgs(property, record[key], `${path}.${key}`));
+      });
+      break;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Central registry of function tools.
+ *
+ * Features register a handler together with its `FunctionDeclaration`, the
+ * client merges the declarations into `LiveConnectConfig.tools` on connect and
+ * dispatches every `toolCall` here. Arguments are validated against the
+ * declared schema before the handler runs, and whatever the handler returns
+ * (or throws) is sent back through `sendToolResponse`.
+ */
+export class ToolRegistry extends EventEmitter<ToolRegistryEventTypes> {
+  private tools = new Map<string, RegisteredTool>();
+  // in-flight invocations by function call id
+  private inflight = new Map<string, AbortController>();
+
+  constructor(private host: ToolRegistryHost) {
+    super();
+  }
+
+  /**
+   * registers a handler for `declaration.name`, replacing any previous one
+   * @returns a function that unregisters the handler
+   */
+  register<Args = ToolArgs>(
+    declaration: FunctionDeclaration,
+    handler: ToolHandler<Args>,
+  ): () => void {
+    if (!declaration.name) {
+      throw new Error("Function declarations need a name to be registered");
+    }
+    // `Args` is the caller's promise about the declared schema, which the
+    // arguments are validated against before the handler runs
+    const entry: RegisteredTool = {
+      declaration,
+      handler: handler as unknown as ToolHandler,
+    };
+    this.tools.set(declaration.name, entry);
+    this.emit("change");
+    return () => {
+      if (this.tools.get(declaration.name!) === entry) {
+        this.unregister(declaration.name!);
+      }
+    };
+  }
+
+  unregister(name: string) {
+    if (this.tools.delete(name)) {
+      this.emit("change");
+    }
+  }
+
+  has(name: string) {
+    return this.tools.has(name);
+  }
+
+  get declarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values()).map((t) => t.declaration);
+  }
+
+  /**
+   * a copy of `config` including every registered declaration
+   * see `mergeFunctionDeclarations`
+   */
+  applyTo(config: LiveConnectConfig): LiveConnectConfig {
+    return mergeFunctionDeclarations(config, this.declarations);
+  }
+
+  /**
+   * runs the handlers for every function call in `toolCall`
+   * each response is sent as soon as its handler settles
+   * @param nonBlocking functions declared NON_BLOCKING in the session's
+   * config, which may differ from the registered declarations
+   */
+  async dispatch(
+    toolCall: LiveServerToolCall,
+    nonBlocking = nonBlockingFunctionNames({
+      tools: [{ functionDeclarations: this.declarations }],
+    }),
+  ) {
+    await Promise.all(
+      (toolCall.functionCalls || []).map((fc) =>
+        this.invoke(fc, nonBlocking.has(fc.name || "")),
+      ),
+    );
+  }
+
+  /**
+   * aborts the in-flight invocations for `ids`, as announced by a
+   * `LiveServerToolCallCancellation`
+   */
+  cancel(ids: string[]) {
+    ids.forEach((id) => {
+      const controller = this.inflight.get(id);
+      if (controller) {
+        controller.abort();
+        this.inflight.delete(id);
+        this.host.log("client.toolCall.cancelled", `Cancelled call ${id}`);
+      }
+    });
+  }
+
+  private async invoke(fc: FunctionCall, background: boolean) {
+    const name = fc.name || "";
+    const tool = this.tools.get(name);
+    if (!tool) {
+      this.respondWithError(fc, {
+        code: "UNKNOWN_FUNCTION",
+        message: `No handler is registered for function "${name}"`,
+      });
+      return;
+    }
+
+    const args = fc.args || {};
+    const problems = validateArgs(tool.declaration.parameters, args);
+    if (problems.length) {
+      this.respondWithError(fc, {
+        code: "INVALID_ARGUMENTS",
+        message: `Invalid arguments for "${name}"`,
+        details: problems,
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    if (fc.id) {
+      this.inflight.set(fc.id, controller);
+    }
+    const { signal } = controller;
+    try {
+      const output = await tool.handler(args, {
+        id: fc.id,
+        name,
+        signal,
+        background,
+      });
+      if (!signal.aborted) {
+        this.respond(this.functionResponse(fc, output, background));
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        this.respondWithError(fc, {
+          code: "HANDLER_ERROR",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      if (fc.id && this.inflight.get(fc.id) === controller) {
+        this.inflight.delete(fc.id);
+      }
+    }
+    if (signal.aborted) {
+      this.host.log(
+        "client.toolResponse.suppressed",
+        `Dropped response for cancelled call ${fc.id}`,
+      );
+    }
+  }
+
+  private functionResponse(
+    fc: FunctionCall,
+    output: unknown,
+    background: boolean,
+  ): FunctionResponse {
+    const response: FunctionResponse = { id: fc.id, name: fc.name };
+    if (!isScheduledResponse(output)) {
+      return { ...response, response: { output: output ?? {} } };
+    }
+    if (!background) {
+      this.host.log(
+        "client.toolResponse.warn",
+        `${fc.name} is blocking, ignoring its response scheduling`,
+      );
+      return { ...response, response: { output: output.output ?? {} } };
+    }
+    return {
+      ...response,
+      response: { output: output.output ?? {} },
+      scheduling: output.scheduling,
+      willContinue: output.willContinue,
+    };
+  }
+
+  private respondWithError(fc: FunctionCall, error: ToolError) {
+    this.host.log("client.toolCall.error", `${fc.name}: ${error.message}`);
+    this.respond({ id: fc.id, name: fc.name, response: { error } });
+  }
+
+  private respond(functionResponse: FunctionResponse) {
+    this.host.sendToolResponse({ functionResponses: [functionResponse] });
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MediaModality, UsageMetadata } from "@google/genai";
+import {
+  emptyUsage,
+  PriceTable,
+  toTokenUsage,
+  UsageMeter,
+  usageCost,
+} from "./usage-meter";
+
+// a report for `prompt` audio tokens in and `response` audio tokens out
+const audioUsage = (prompt: number, response: number): UsageMetadata => ({
+  promptTokenCount: prompt,
+  responseTokenCount: response,
+  totalTokenCount: prompt + response,
+  promptTokensDetails: [{ modality: MediaModality.AUDIO, tokenCount: prompt }],
+  responseTokensDetails: [
+    { modality: MediaModality.AUDIO, tokenCount: response },
+  ],
+});
+
+const prices: PriceTable = {
+  currency: "USD",
+  input: { text: 0.5, audio: 3 },
+  output: { text: 2, audio: 12 },
+};
+
+test("toTokenUsage splits tokens by modality, the rest counts as text", () => {
+  const usage = toTokenUsage({
+    promptTokenCount: 100,
+    responseTokenCount: 40,
+    cachedContentTokenCount: 5,
+    toolUsePromptTokenCount: 3,
+    thoughtsTokenCount: 2,
+    totalTokenCount: 145,
+    promptTokensDetails: [
+      { modality: MediaModality.AUDIO, tokenCount: 60 },
+      { modality: MediaModality.IMAGE, tokenCount: 20 },
+      { modality: MediaModality.VIDEO, tokenCount: 10 },
+    ],
+  });
+  expect(usage).toEqual({
+    prompt: 100,
+    response: 40,
+    cached: 5,
+    toolUse: 3,
+    thoughts: 2,
+    total: 145,
+    input: { text: 10, audio: 60, video: 30 },
+    output: { text: 40, audio: 0, video: 0 },
+  });
+  expect(toTokenUsage({})).toEqual(emptyUsage());
+});
+
+test("usageCost prices each direction and modality per million tokens", () => {
+  const usage = toTokenUsage(audioUsage(1_000_000, 500_000));
+  expect(usageCost(usage, prices)).toBeCloseTo(3 + 6);
+  expect(usageCost(usage, { ...prices, per: 1000 })).toBeCloseTo(9000);
+  // modalities without a price are free
+  expect(usageCost(usage, { currency: "USD", input: {}, output: {} })).toBe(0);
+});
+
+describe("UsageMeter", () => {
+  test("a later report in a turn supersedes the earlier one", () => {
+    const meter = new UsageMeter();
+    meter.record(audioUsage(100, 10));
+    meter.record(audioUsage(100, 30));
+    expect(meter.snapshot.turn.response).toBe(30);
+    expect(meter.snapshot.session.total).toBe(130);
+    expect(meter.snapshot.turns).toBe(0);
+  });
+
+  test("adds each completed turn to the session", () => {
+    const meter = new UsageMeter(prices);
+    meter.record(audioUsage(100_000, 20_000));
+    meter.endTurn();
+    meter.record(audioUsage(200_000, 50_000));
+    meter.endTurn();
+    // a turn without a report adds nothing
+    meter.endTurn();
+
+    const { session, turn, turns, cost, currency } = meter.snapshot;
+    expect(turns).toBe(2);
+    expect(turn.prompt).toBe(200_000);
+    expect(session.input.audio).toBe(300_000);
+    expect(session.output.audio).toBe(70_000);
+    expect(cost).toBeCloseTo(0.9 + 0.84);
+    expect(currency).toBe("USD");
+  });
+
+  test("counts the turn in progress in the session total", () => {
+    const meter = new UsageMeter();
+    meter.record(audioUsage(100, 10));
+    meter.endTurn();
+    meter.record(audioUsage(50, 5));
+    expect(meter.snapshot.session.total).toBe(165);
+    meter.endTurn();
+    expect(meter.snapshot.session.total).toBe(165);
+  });
+
+  test("emits a snapshot on every change and resets to zero", () => {
+    const meter = new UsageMeter();
+    const change = jest.fn();
+    meter.on("change", change);
+    meter.record(audioUsage(100, 10));
+    meter.endTurn();
+    meter.setPriceTable(prices);
+    expect(change).toHaveBeenCalledTimes(3);
+    expect(change.mock.calls[2][0].cost).toBeCloseTo(0.00042);
+
+    meter.reset();
+    expect(change).toHaveBeenCalledTimes(4);
+    expect(meter.snapshot).toEqual({
+      session: emptyUsage(),
+      turn: emptyUsage(),
+      turns: 0,
+      cost: 0,
+      currency: "USD",
+    });
+  });
+});
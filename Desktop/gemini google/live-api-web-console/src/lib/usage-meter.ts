@@ -0,0 +1,199 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MediaModality, ModalityTokenCount, UsageMetadata } from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+
+export type UsageModality = "text" | "audio" | "video";
+
+export type ModalityCounts = Record<UsageModality, number>;
+
+export type TokenUsage = {
+  prompt: number;
+  response: number;
+  cached: number;
+  toolUse: number;
+  thoughts: number;
+  total: number;
+  /** prompt tokens by modality */
+  input: ModalityCounts;
+  /** response tokens by modality */
+  output: ModalityCounts;
+};
+
+/**
+ * prices per `per` tokens (1M by default), by direction and modality
+ */
+export type PriceTable = {
+  currency: string;
+  per?: number;
+  input: Partial<ModalityCounts>;
+  output: Partial<ModalityCounts>;
+};
+
+export type UsageSnapshot = {
+  /** everything since connect, including the turn in progress */
+  session: TokenUsage;
+  /** the turn in progress, or the last one once it completed */
+  turn: TokenUsage;
+  /** completed turns */
+  turns: number;
+  /** cost of `session`, only with a price table */
+  cost?: number;
+  currency?: string;
+};
+
+export interface UsageMeterEventTypes {
+  change: (snapshot: UsageSnapshot) => void;
+}
+
+const emptyCounts = (): ModalityCounts => ({ text: 0, audio: 0, video: 0 });
+
+export const emptyUsage = (): TokenUsage => ({
+  prompt: 0,
+  response: 0,
+  cached: 0,
+  toolUse: 0,
+  thoughts: 0,
+  total: 0,
+  input: emptyCounts(),
+  output: emptyCounts(),
+});
+
+const modalities: Partial<Record<MediaModality, UsageModality>> = {
+  [MediaModality.TEXT]: "text",
+  [MediaModality.AUDIO]: "audio",
+  [MediaModality.IMAGE]: "video",
+  [MediaModality.VIDEO]: "video",
+};
+
+// details are optional, whatever they don't account for is counted as text
+function byModality(total: number, details?: ModalityTokenCount[]) {
+  const counts = emptyCounts();
+  let accounted = 0;
+  (details || []).forEach(({ modality, tokenCount = 0 }) => {
+    counts[(modality && modalities[modality]) || "text"] += tokenCount;
+    accounted += tokenCount;
+  });
+  counts.text += Math.max(0, total - accounted);
+  return counts;
+}
+
+export function toTokenUsage(metadata: UsageMetadata): TokenUsage {
+  const prompt = metadata.promptTokenCount || 0;
+  const response = metadata.responseTokenCount || 0;
+  return {
+    prompt,
+    response,
+    cached: metadata.cachedContentTokenCount || 0,
+    toolUse: metadata.toolUsePromptTokenCount || 0,
+    thoughts: metadata.thoughtsTokenCount || 0,
+    total: metadata.totalTokenCount || 0,
+    input: byModality(prompt, metadata.promptTokensDetails),
+    output: byModality(response, metadata.responseTokensDetails),
+  };
+}
+
+function addCounts(a: ModalityCounts, b: ModalityCounts): ModalityCounts {
+  return {
+    text: a.text + b.text,
+    audio: a.audio + b.audio,
+    video: a.video + b.video,
+  };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    prompt: a.prompt + b.prompt,
+    response: a.response + b.response,
+    cached: a.cached + b.cached,
+    toolUse: a.toolUse + b.toolUse,
+    thoughts: a.thoughts + b.thoughts,
+    total: a.total + b.total,
+    input: addCounts(a.input, b.input),
+    output: addCounts(a.output, b.output),
+  };
+}
+
+export function usageCost(usage: TokenUsage, table: PriceTable): number {
+  const per = table.per || 1_000_000;
+  const sum = (counts: ModalityCounts, prices: Partial<ModalityCounts>) =>
+    (Object.keys(counts) as UsageModality[]).reduce(
+      (total, modality) => total + counts[modality] * (prices[modality] || 0),
+      0,
+    );
+  return (sum(usage.input, table.input) + sum(usage.output, table.output)) / per;
+}
+
+/**
+ * Accumulates `usageMetadata` reports into per-turn and per-session totals.
+ *
+ * The server reports usage for the generation in progress, a later report in
+ * the same turn supersedes the earlier one. A turn's last report is added to
+ * the session total when the turn ends.
+ */
+export class UsageMeter extends EventEmitter<UsageMeterEventTypes> {
+  private completed = emptyUsage();
+  private turn = emptyUsage();
+  private turnOpen = false;
+  private turns = 0;
+
+  constructor(private priceTable?: PriceTable) {
+    super();
+  }
+
+  get snapshot(): UsageSnapshot {
+    const session = this.turnOpen
+      ? addUsage(this.completed, this.turn)
+      : this.completed;
+    return {
+      session,
+      turn: this.turn,
+      turns: this.turns,
+      cost: this.priceTable ? usageCost(session, this.priceTable) : undefined,
+      currency: this.priceTable?.currency,
+    };
+  }
+
+  record(metadata: UsageMetadata) {
+    this.turn = toTokenUsage(metadata);
+    this.turnOpen = true;
+    this.emit("change", this.snapshot);
+  }
+
+  endTurn() {
+    if (!this.turnOpen) {
+      return;
+    }
+    this.completed = addUsage(this.completed, this.turn);
+    this.turnOpen = false;
+    this.turns++;
+    this.emit("change", this.snapshot);
+  }
+
+  setPriceTable(priceTable?: PriceTable) {
+    this.priceTable = priceTable;
+    this.emit("change", this.snapshot);
+  }
+
+  reset() {
+    this.completed = emptyUsage();
+    this.turn = emptyUsage();
+    this.turnOpen = false;
+    this.turns = 0;
+    this.emit("change", this.snapshot);
+  }
+}
@@ -23,12 +23,16 @@ const map: Map<string, AudioContext> = new Map();
 export const audioContext: (
   options?: GetAudioContextOptions
 ) => Promise<AudioContext> = (() => {
-  const didInteract = new Promise((res) => {
-    window.addEventListener("pointerdown", res, { once: true });
-    window.addEventListener("keydown", res, { once: true });
-  });
+  // created on first use, so importing this module doesn't need a window
+  let didInteract: Promise<unknown> | null = null;
+  const interaction = () =>
+    (didInteract ||= new Promise((res) => {
+      window.addEventListener("pointerdown", res, { once: true });
+      window.addEventListener("keydown", res, { once: true });
+    }));
 
   return async (options?: GetAudioContextOptions) => {
+    const interacted = interaction();
     try {
       const a = new Audio();
       a.src =
@@ -46,7 +50,7 @@ export const audioContext: (
       }
       return ctx;
     } catch (e) {
-      await didInteract;
+      await interacted;
       if (options?.id && map.has(options.id)) {
         const ctx = map.get(options.id);
         if (ctx) {
@@ -0,0 +1,126 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { wavToInputChunks } from "../../scripts/live-cli";
+import { decodeWav, encodeWav, floatTo16BitPCM, resample } from "./wav";
+
+// a WAV header with the given format, followed by `data`
+function wavFile(
+  format: number,
+  channels: number,
+  sampleRate: number,
+  bitsPerSample: number,
+  data: Uint8Array,
+): Uint8Array {
+  const bytes = new Uint8Array(44 + data.length);
+  const view = new DataView(bytes.buffer);
+  const fourCC = (offset: number, value: string) =>
+    value.split("").forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  fourCC(0, "RIFF");
+  view.setUint32(4, 36 + data.length, true);
+  fourCC(8, "WAVE");
+  fourCC(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint16(34, bitsPerSample, true);
+  fourCC(36, "data");
+  view.setUint32(40, data.length, true);
+  bytes.set(data, 44);
+  return bytes;
+}
+
+describe("encodeWav / decodeWav", () => {
+  test("round-trips interleaved PCM16", () => {
+    const pcm = Int16Array.from([0, 16384, -16384, 32767, -32768, 8192]);
+    const decoded = decodeWav(encodeWav(pcm, 22050, 2));
+    expect(decoded.sampleRate).toBe(22050);
+    expect(Array.from(decoded.channels[0])).toEqual([0, -0.5, -1]);
+    expect(Array.from(decoded.channels[1])).toEqual([0.5, 32767 / 32768, 0.25]);
+    expect(
+      Array.from(floatTo16BitPCM(decoded.channels[0]))
+    ).toEqual([0, -16384, -32768]);
+  });
+
+  test("reads 8 bit, 24 bit and float samples", () => {
+    const eightBit = decodeWav(wavFile(1, 1, 8000, 8, Uint8Array.from([128, 192, 0])));
+    expect(Array.from(eightBit.channels[0])).toEqual([0, 0.5, -1]);
+
+    // -0.5 and 0.25 as little-endian 24 bit integers
+    const twentyFour = decodeWav(
+      wavFile(1, 1, 8000, 24, Uint8Array.from([0, 0, 0xc0, 0, 0, 0x20]))
+    );
+    expect(Array.from(twentyFour.channels[0])).toEqual([-0.5, 0.25]);
+
+    const float = decodeWav(
+      wavFile(3, 1, 8000, 32, new Uint8Array(Float32Array.from([0.75, -0.125]).buffer))
+    );
+    expect(Array.from(float.channels[0])).toEqual([0.75, -0.125]);
+  });
+
+  test("skips unknown chunks and rejects what it can't read", () => {
+    const wav = encodeWav(Int16Array.from([16384]), 16000);
+    // a LIST chunk between fmt and data
+    const withList = new Uint8Array(wav.length + 12);
+    withList.set(wav.subarray(0, 36));
+    withList.set(Uint8Array.from("LIST", (c) => c.charCodeAt(0)), 36);
+    new DataView(withList.buffer).setUint32(40, 4, true);
+    withList.set(wav.subarray(36), 48);
+    expect(Array.from(decodeWav(withList).channels[0])).toEqual([0.5]);
+
+    expect(() => decodeWav(new Uint8Array(44))).toThrow("Not a WAV file");
+    expect(() => decodeWav(wavFile(2, 1, 8000, 4, new Uint8Array(2)))).toThrow(
+      "Unsupported WAV format 2"
+    );
+  });
+});
+
+describe("resample", () => {
+  test("keeps samples at the same rate", () => {
+    const samples = Float32Array.from([0.1, 0.2]);
+    expect(resample(samples, 16000, 16000)).toBe(samples);
+  });
+
+  test("interpolates linearly between samples", () => {
+    const up = resample(Float32Array.from([0, 1, 0, -1]), 8000, 16000);
+    expect(Array.from(up)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+    const down = resample(Float32Array.from([0, 1, 2, 3, 4, 5]), 24000, 16000);
+    expect(Array.from(down)).toEqual([0, 1.5, 3, 4.5]);
+  });
+});
+
+describe("wavToInputChunks", () => {
+  test("streams the first channel at 16kHz in 2048 sample chunks", () => {
+    // 0.5s of stereo at 32kHz, the left channel at half scale
+    const frames = 16000;
+    const pcm = new Int16Array(frames * 2);
+    for (let i = 0; i < frames; i++) {
+      pcm[i * 2] = 16384;
+      pcm[i * 2 + 1] = -32768;
+    }
+    const chunks = wavToInputChunks(encodeWav(pcm, 32000, 2));
+
+    // 8000 samples of input and 16000 of trailing silence
+    const total = chunks.reduce((length, chunk) => length + chunk.length, 0);
+    expect(total).toBe(24000);
+    expect(chunks.slice(0, -1).every((chunk) => chunk.length === 2048)).toBe(true);
+    expect(chunks[0][0]).toBe(16384);
+    expect(chunks[3][1855]).toBe(16384);
+    expect(chunks[3][1856]).toBe(0);
+    expect(chunks[chunks.length - 1].every((sample) => sample === 0)).toBe(true);
+  });
+});
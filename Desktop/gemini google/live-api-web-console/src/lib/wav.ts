@@ -0,0 +1,201 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * WAV reading and writing without Web Audio, shared by the browser and the
+ * Node command line driver.
+ */
+
+export type DecodedWav = {
+  sampleRate: number;
+  /** one array of samples between -1 and 1 per channel */
+  channels: Float32Array[];
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/**
+ * decodes integer PCM (8, 16, 24 or 32 bit) and 32 bit float WAV files
+ */
+export function decodeWav(data: ArrayBuffer | Uint8Array): DecodedWav {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (fourCC(view, 0) !== "RIFF" || fourCC(view, 8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === WAVE_FORMAT_EXTENSIBLE) {
+        // the first two bytes of the sub format GUID are the actual format
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      if (!channelCount) {
+        throw new Error("WAV data before its format");
+      }
+      const length = Math.min(size, view.byteLength - body);
+      return {
+        sampleRate,
+        channels: readSamples(view, body, length, format, channelCount, bitsPerSample),
+      };
+    }
+    // chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+  throw new Error("WAV file has no data");
+}
+
+function readSamples(
+  view: DataView,
+  start: number,
+  length: number,
+  format: number,
+  channelCount: number,
+  bitsPerSample: number,
+): Float32Array[] {
+  const bytesPerSample = bitsPerSample / 8;
+  const read = sampleReader(view, format, bitsPerSample);
+  const frames = Math.floor(length / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels[channel][frame] = read(
+        start + (frame * channelCount + channel) * bytesPerSample
+      );
+    }
+  }
+  return channels;
+}
+
+function sampleReader(
+  view: DataView,
+  format: number,
+  bitsPerSample: number,
+): (offset: number) => number {
+  if (format === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    return (offset) => view.getFloat32(offset, true);
+  }
+  if (format !== WAVE_FORMAT_PCM) {
+    throw new Error(`Unsupported WAV format ${format}`);
+  }
+  switch (bitsPerSample) {
+    case 8:
+      return (offset) => (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return (offset) => view.getInt16(offset, true) / 32768;
+    case 24:
+      return (offset) => {
+        const value =
+          view.getUint8(offset) |
+          (view.getUint8(offset + 1) << 8) |
+          (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      };
+    case 32:
+      return (offset) => view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported WAV sample size ${bitsPerSample}`);
+  }
+}
+
+/**
+ * a 16 bit PCM WAV file, `pcm` holds interleaved samples when `channels` > 1
+ */
+export function encodeWav(
+  pcm: Int16Array,
+  sampleRate: number,
+  channels = 1,
+): Uint8Array {
+  const dataLength = pcm.length * 2;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const writeFourCC = (offset: number, value: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  writeFourCC(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeFourCC(8, "WAVE");
+  writeFourCC(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeFourCC(36, "data");
+  view.setUint32(40, dataLength, true);
+  for (let i = 0; i < pcm.length; i++) {
+    view.setInt16(44 + i * 2, pcm[i], true);
+  }
+  return bytes;
+}
+
+/**
+ * linear interpolation, good enough for speech
+ */
+export function resample(samples: Float32Array, from: number, to: number): Float32Array {
+  if (from === to) {
+    return samples;
+  }
+  const length = Math.floor((samples.length * to) / from);
+  const resampled = new Float32Array(length);
+  const ratio = from / to;
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    resampled[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+  }
+  return resampled;
+}
+
+/**
+ * float samples to PCM16 the way the recording worklet converts them
+ */
+export function floatTo16BitPCM(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.max(-32768, Math.min(32767, samples[i] * 32768));
+  }
+  return pcm;
+}
@@ -23,11 +23,40 @@ import {
   LiveServerContent, // <-- Add this import
   Part,
 } from "@google/genai";
+import { AuthTokenProvider } from "../lib/auth-token";
+import { LiveEnvironment } from "../lib/live-environment";
+import { LiveTransport } from "../lib/live-transport";
+import { OutboundQueuePolicy } from "../lib/outbound-queue";
+import { ReconnectPolicy } from "../lib/reconnect-policy";
+import { SessionStore, SessionStoreKind } from "../lib/session-store";
+import { PriceTable } from "../lib/usage-meter";
 
 /**
- * the options to initiate the client, ensure apiKey is required
+ * the options to initiate the client, set either `apiKey` or `authToken`
+ * pass a `transport` to connect through something other than the @google/genai SDK
  */
-export type LiveClientOptions = GoogleGenAIOptions & { apiKey: string };
+export type LiveClientOptions = GoogleGenAIOptions & {
+  apiKey?: string;
+  /** fetches short-lived tokens from a backend so no API key ships to the browser */
+  authToken?: AuthTokenProvider;
+  transport?: LiveTransport;
+  /** timers, storage and events of the host, `nodeEnvironment` when not set */
+  environment?: LiveEnvironment;
+  /** where session resumption handles are kept, defaults to "local" with `browserEnvironment` and "memory" otherwise */
+  sessionStore?: SessionStore | SessionStoreKind;
+  /** prefix for stored handles, set it per app to share an origin safely */
+  sessionNamespace?: string;
+  /** handles older than this (ms) are discarded instead of resumed */
+  sessionMaxAge?: number;
+  /** overrides for `DEFAULT_RECONNECT_POLICY` */
+  reconnectPolicy?: Partial<ReconnectPolicy>;
+  /** what realtime input to keep while disconnected, per modality */
+  outboundQueue?: Partial<OutboundQueuePolicy>;
+  /** turns token usage into a cost estimate, see `UsageMeter` */
+  priceTable?: PriceTable;
+  /** start `GenAILiveClient.recorder` right away */
+  record?: boolean;
+};
 
 /** log types */
 export type StreamingLog = {